@@ -0,0 +1,77 @@
+// Pluggable account provider for sign-in. An account links an email address to a backend user id,
+// so signing in with the same email on any device uses the same backend user.
+import { ProxyError } from "./backend"
+
+export interface Account {
+  email: string
+  userId: string
+}
+
+export interface AuthProvider {
+  name: string
+  // Deliver a sign-in link to the address
+  sendSignInLink: (email: string, link: string) => Promise<void>
+  findAccount: (email: string) => Promise<Account | null>
+  createAccount: (account: Account) => Promise<Account>
+  // Mark a sign-in link as used; false if it was already used
+  consumeSignInToken: (tokenId: string, expiresAt: number) => Promise<boolean>
+  // Whether the sign-in link may be shown to the browser directly (local development only)
+  exposesLinks: boolean
+}
+
+// Simple logger object
+const logger = {
+  log: (...args: unknown[]) => {
+    console.log("[auth-local]", ...args)
+  },
+}
+
+interface LocalAuthData {
+  accounts: Map<string, Account>
+  usedTokens: Map<string, number>
+}
+
+// Kept on globalThis because each route is bundled separately in development
+const globalForAuth = globalThis as typeof globalThis & { __foresightLocalAuth?: LocalAuthData }
+
+// Local stub: accounts live in memory and sign-in links are written to the server log
+function createLocalAuthProvider(): AuthProvider {
+  const data = (globalForAuth.__foresightLocalAuth ??= { accounts: new Map(), usedTokens: new Map() })
+
+  return {
+    name: "local",
+    exposesLinks: process.env.NODE_ENV !== "production",
+    sendSignInLink: async (email, link) => {
+      logger.log(`Sign-in link for ${email}: ${link}`)
+    },
+    findAccount: async (email) => data.accounts.get(email) ?? null,
+    createAccount: async (account) => {
+      data.accounts.set(account.email, account)
+      return account
+    },
+    consumeSignInToken: async (tokenId, expiresAt) => {
+      // Forget tokens that have expired anyway
+      const now = Date.now()
+      for (const [id, expiry] of data.usedTokens) {
+        if (expiry < now) data.usedTokens.delete(id)
+      }
+      if (data.usedTokens.has(tokenId)) return false
+      data.usedTokens.set(tokenId, expiresAt)
+      return true
+    },
+  }
+}
+
+// Providers selectable with AUTH_PROVIDER; add real ones (email service, passkeys) here
+const PROVIDERS: Record<string, () => AuthProvider> = {
+  local: createLocalAuthProvider,
+}
+
+export function getAuthProvider(): AuthProvider {
+  const name = process.env.AUTH_PROVIDER || "local"
+  const createProvider = PROVIDERS[name]
+  if (!createProvider) {
+    throw new ProxyError(500, `Unknown AUTH_PROVIDER "${name}"`)
+  }
+  return createProvider()
+}
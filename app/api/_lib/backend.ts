@@ -0,0 +1,152 @@
+// Server-side access to the Foresight backend for the API proxy routes.
+// Request bodies are read with a size cap before anything is forwarded.
+
+// Backend used when BACKEND_API_URL is not set
+const DEFAULT_BACKEND_API_URL = "https://sfhacks-backend.onrender.com/api"
+
+// How long to wait for the backend to start answering (a cold start on the host can take a while).
+// Once headers arrive the body may take as long as it needs, so TTS can stream.
+const UPSTREAM_TIMEOUT_MS = 60000
+
+// Largest request bodies accepted from the browser
+export const PAYLOAD_LIMITS = {
+  // Base64 JSON is about a third larger than the raw frame
+  visionUpload: 10 * 1024 * 1024,
+  conversationAudio: 10 * 1024 * 1024,
+  conversationText: 64 * 1024,
+}
+
+// Longest question and longest text to synthesize, in characters
+export const MAX_TEXT_QUERY_CHARS = 4000
+export const MAX_TTS_TEXT_CHARS = 10000
+
+// Conversation session ids are generated by the client (UUIDs), so anything else is rejected
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/
+
+// An error the proxy answers with directly instead of forwarding
+export class ProxyError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = "ProxyError"
+    this.status = status
+  }
+}
+
+// Validate the optional session_id of a conversation request
+export function readSessionId(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  if (typeof value !== "string" || !SESSION_ID_PATTERN.test(value)) {
+    throw new ProxyError(400, "session_id is invalid")
+  }
+  return value
+}
+
+// Helper function to build a backend URL for an endpoint
+export function backendUrl(endpoint: string, params?: Record<string, string>): string {
+  const base = (process.env.BACKEND_API_URL || DEFAULT_BACKEND_API_URL).trim().replace(/\/+$/, "")
+  const query = params ? `?${new URLSearchParams(params)}` : ""
+  return `${base}${endpoint}${query}`
+}
+
+// Read a request body, rejecting it as soon as it grows past maxBytes
+export async function readBody(request: Request, maxBytes: number): Promise<Uint8Array> {
+  const declaredLength = Number(request.headers.get("content-length"))
+  if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+    throw new ProxyError(413, `Request body exceeds ${maxBytes} bytes`)
+  }
+  if (!request.body) return new Uint8Array(0)
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => {})
+      throw new ProxyError(413, `Request body exceeds ${maxBytes} bytes`)
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
+
+// Read a size-limited JSON object body
+export async function readJsonBody(request: Request, maxBytes: number): Promise<Record<string, unknown>> {
+  const body = await readBody(request, maxBytes)
+  let payload: unknown
+  try {
+    payload = JSON.parse(new TextDecoder().decode(body))
+  } catch (error) {
+    throw new ProxyError(400, "Request body is not valid JSON", { cause: error })
+  }
+  if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+    throw new ProxyError(400, "Request body must be a JSON object")
+  }
+  return payload as Record<string, unknown>
+}
+
+// Read a size-limited multipart/form-data body
+export async function readFormBody(request: Request, maxBytes: number): Promise<FormData> {
+  const body = await readBody(request, maxBytes)
+  try {
+    return await new Response(body, {
+      headers: { "Content-Type": request.headers.get("content-type") ?? "" },
+    }).formData()
+  } catch (error) {
+    throw new ProxyError(400, "Request body is not valid multipart/form-data", { cause: error })
+  }
+}
+
+// Call the backend and pass its response through to the browser.
+// The upstream request is cancelled when the browser disconnects.
+export async function forwardToBackend(
+  request: Request,
+  endpoint: string,
+  init: { method: "GET" | "POST"; params?: Record<string, string>; body?: BodyInit; headers?: HeadersInit },
+): Promise<Response> {
+  const controller = new AbortController()
+  const cancelUpstream = () => controller.abort()
+  request.signal.addEventListener("abort", cancelUpstream)
+  let timedOut = false
+  const timeout = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, UPSTREAM_TIMEOUT_MS)
+
+  let upstream: Response
+  try {
+    upstream = await fetch(backendUrl(endpoint, init.params), {
+      method: init.method,
+      body: init.body,
+      headers: init.headers,
+      signal: controller.signal,
+      cache: "no-store",
+    })
+  } catch (error) {
+    request.signal.removeEventListener("abort", cancelUpstream)
+    if (timedOut) {
+      throw new ProxyError(504, `Backend did not respond to ${endpoint} in time`, { cause: error })
+    }
+    throw new ProxyError(502, `Could not reach backend for ${endpoint}`, { cause: error })
+  } finally {
+    clearTimeout(timeout)
+  }
+
+  // fetch has already decoded any content encoding, so only the type is passed on
+  const headers = new Headers({ "Cache-Control": "no-store" })
+  const contentType = upstream.headers.get("content-type")
+  if (contentType) headers.set("Content-Type", contentType)
+
+  return new Response(upstream.body, { status: upstream.status, headers })
+}
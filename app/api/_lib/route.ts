@@ -0,0 +1,45 @@
+// Shared wrappers for the proxy route handlers: session, error responses and request logging
+import { ProxyError } from "./backend"
+import { type Session, requireSession } from "./session"
+
+type RouteHandler = (request: Request) => Promise<Response>
+type SessionHandler = (request: Request, userId: string, session: Session) => Promise<Response>
+
+// Simple logger object
+const logger = {
+  log: (...args: unknown[]) => {
+    console.log("[api-proxy]", ...args)
+  },
+  error: (...args: unknown[]) => {
+    console.error("[api-proxy]", ...args)
+  },
+}
+
+// Wrap a handler so failures become JSON error responses and every request is logged
+export function withErrorHandling(endpoint: string, handler: RouteHandler) {
+  return async (request: Request): Promise<Response> => {
+    const startedAt = Date.now()
+    let response: Response
+    try {
+      response = await handler(request)
+    } catch (error) {
+      if (!(error instanceof ProxyError)) {
+        logger.error(`${request.method} ${endpoint} failed:`, error)
+      }
+      const status = error instanceof ProxyError ? error.status : 500
+      const message = error instanceof ProxyError ? error.message : "Internal proxy error"
+      response = Response.json({ error: message }, { status, headers: { "Cache-Control": "no-store" } })
+    }
+
+    logger.log(`${request.method} ${endpoint} ${response.status} ${Date.now() - startedAt}ms`)
+    return response
+  }
+}
+
+// Like withErrorHandling, but the handler also receives the session's user id
+export function withSession(endpoint: string, handler: SessionHandler) {
+  return withErrorHandling(endpoint, async (request) => {
+    const session = await requireSession()
+    return handler(request, session.userId, session)
+  })
+}
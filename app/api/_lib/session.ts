@@ -0,0 +1,92 @@
+// Signed session cookie holding the backend user id and, once signed in, the account email.
+// The browser can neither read nor forge the cookie, so the proxy never trusts a client-supplied user_id.
+import { cookies } from "next/headers"
+import { ProxyError, backendUrl } from "./backend"
+import { decodeSigned, encodeSigned } from "./signing"
+
+export interface Session {
+  userId: string
+  // Null for an anonymous session
+  email: string | null
+}
+
+const SESSION_COOKIE = "foresight_session"
+const SESSION_MAX_AGE_S = 365 * 24 * 60 * 60
+
+// Simple logger object
+const logger = {
+  log: (...args: unknown[]) => {
+    console.log("[api-session]", ...args)
+  },
+  error: (...args: unknown[]) => {
+    console.error("[api-session]", ...args)
+  },
+}
+
+// Helper to validate a decoded cookie payload
+function toSession(payload: unknown): Session | null {
+  if (typeof payload !== "object" || payload === null) return null
+  const { userId, email } = payload as Record<string, unknown>
+  if (typeof userId !== "string" || !userId) return null
+  return { userId, email: typeof email === "string" ? email : null }
+}
+
+// The session for this request, or null when there is no valid cookie
+export async function readSession(): Promise<Session | null> {
+  const cookieStore = await cookies()
+  const value = cookieStore.get(SESSION_COOKIE)?.value
+  if (!value) return null
+
+  const session = toSession(decodeSigned(value))
+  if (!session) {
+    logger.error("Ignoring session cookie with an invalid signature")
+  }
+  return session
+}
+
+export async function writeSession(session: Session): Promise<void> {
+  const cookieStore = await cookies()
+  cookieStore.set(SESSION_COOKIE, encodeSigned(session), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    // Only the proxy routes need it
+    path: "/api",
+    maxAge: SESSION_MAX_AGE_S,
+  })
+}
+
+export async function clearSession(): Promise<void> {
+  const cookieStore = await cookies()
+  cookieStore.delete({ name: SESSION_COOKIE, path: "/api" })
+}
+
+// Ask the backend for a new user id
+export async function createBackendUser(): Promise<string> {
+  let response: Response
+  try {
+    response = await fetch(backendUrl("/user/create"), { cache: "no-store" })
+  } catch (error) {
+    throw new ProxyError(502, "Could not reach backend to create a user", { cause: error })
+  }
+  if (!response.ok) {
+    throw new ProxyError(response.status >= 500 ? 502 : response.status, "Backend could not create a user")
+  }
+
+  const payload = (await response.json().catch(() => null)) as { user_id?: unknown } | null
+  if (typeof payload?.user_id !== "string" || !payload.user_id) {
+    throw new ProxyError(502, "Backend returned an invalid user")
+  }
+  return payload.user_id
+}
+
+// The session for this request, starting an anonymous one when there is no valid session yet
+export async function requireSession(): Promise<Session> {
+  const session = await readSession()
+  if (session) return session
+
+  const anonymous: Session = { userId: await createBackendUser(), email: null }
+  await writeSession(anonymous)
+  logger.log("Created anonymous session")
+  return anonymous
+}
@@ -0,0 +1,42 @@
+// Short-lived signed tokens for email sign-in links
+import { randomUUID } from "crypto"
+import { decodeSigned, encodeSigned } from "./signing"
+
+export interface SignInToken {
+  id: string
+  email: string
+  expiresAt: number
+}
+
+const SIGN_IN_LINK_TTL_MS = 15 * 60 * 1000
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Normalized email address, or null when it doesn't look like one
+export function normalizeEmail(value: unknown): string | null {
+  if (typeof value !== "string") return null
+  const email = value.trim().toLowerCase()
+  return email.length <= 254 && EMAIL_PATTERN.test(email) ? email : null
+}
+
+// Build the link that signs the browser that opens it into the account for email
+export function createSignInLink(request: Request, email: string): string {
+  const token: SignInToken = { id: randomUUID(), email, expiresAt: Date.now() + SIGN_IN_LINK_TTL_MS }
+  // APP_URL is needed behind a reverse proxy that rewrites the host
+  const origin = process.env.APP_URL || new URL(request.url).origin
+  const url = new URL("/api/auth/verify", origin)
+  url.searchParams.set("token", encodeSigned(token))
+  return url.toString()
+}
+
+// The token in a sign-in link, or null when it was tampered with or has expired
+export function readSignInToken(value: string | null): SignInToken | null {
+  if (!value) return null
+  const payload = decodeSigned(value)
+  if (typeof payload !== "object" || payload === null) return null
+
+  const { id, email, expiresAt } = payload as Record<string, unknown>
+  if (typeof id !== "string" || typeof email !== "string" || typeof expiresAt !== "number") return null
+  if (expiresAt < Date.now()) return null
+  return { id, email, expiresAt }
+}
@@ -0,0 +1,41 @@
+// HMAC signing for values the browser holds but must not be able to forge (session cookie, sign-in links)
+import { createHmac, timingSafeEqual } from "crypto"
+import { ProxyError } from "./backend"
+
+// Only used outside production so local development works without configuration
+const DEVELOPMENT_SECRET = "foresight-development-session-secret"
+
+function getSigningSecret(): string {
+  const secret = process.env.SESSION_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") {
+    throw new ProxyError(500, "SESSION_SECRET is not configured")
+  }
+  return DEVELOPMENT_SECRET
+}
+
+function sign(value: string): string {
+  return createHmac("sha256", getSigningSecret()).update(value).digest("base64url")
+}
+
+// base64url(JSON payload) + "." + signature
+export function encodeSigned(payload: unknown): string {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url")
+  return `${encoded}.${sign(encoded)}`
+}
+
+// The payload of a signed value, or null when it is malformed or the signature doesn't match
+export function decodeSigned(value: string): unknown {
+  const [encoded, signature] = value.split(".")
+  if (!encoded || !signature) return null
+
+  const expected = Buffer.from(sign(encoded))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  try {
+    return JSON.parse(Buffer.from(encoded, "base64url").toString())
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,6 @@
+// GET /api/auth/session - the current user and account (starts an anonymous session if needed)
+import { withSession } from "../../_lib/route"
+
+export const GET = withSession("/auth/session", async (_request, userId, session) => {
+  return Response.json({ user_id: userId, email: session.email }, { headers: { "Cache-Control": "no-store" } })
+})
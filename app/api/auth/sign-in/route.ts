@@ -0,0 +1,24 @@
+// POST /api/auth/sign-in - emails a sign-in link for { email }
+import { ProxyError, readJsonBody } from "../../_lib/backend"
+import { getAuthProvider } from "../../_lib/authProvider"
+import { withErrorHandling } from "../../_lib/route"
+import { createSignInLink, normalizeEmail } from "../../_lib/signInLink"
+
+const MAX_BODY_BYTES = 4 * 1024
+
+export const POST = withErrorHandling("/auth/sign-in", async (request) => {
+  const payload = await readJsonBody(request, MAX_BODY_BYTES)
+  const email = normalizeEmail(payload.email)
+  if (!email) {
+    throw new ProxyError(400, "A valid email address is required")
+  }
+
+  const provider = getAuthProvider()
+  const link = createSignInLink(request, email)
+  await provider.sendSignInLink(email, link)
+
+  return Response.json(
+    { sent: true, preview_link: provider.exposesLinks ? link : undefined },
+    { headers: { "Cache-Control": "no-store" } },
+  )
+})
@@ -0,0 +1,8 @@
+// POST /api/auth/sign-out - ends the session; the next request starts a new anonymous one
+import { withErrorHandling } from "../../_lib/route"
+import { clearSession } from "../../_lib/session"
+
+export const POST = withErrorHandling("/auth/sign-out", async () => {
+  await clearSession()
+  return Response.json({ signed_out: true }, { headers: { "Cache-Control": "no-store" } })
+})
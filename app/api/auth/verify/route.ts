@@ -0,0 +1,32 @@
+// GET /api/auth/verify?token= - opened from the sign-in link; signs in and returns to the app.
+// An anonymous session becomes the new account, so its conversation memory is kept.
+import { getAuthProvider } from "../../_lib/authProvider"
+import { withErrorHandling } from "../../_lib/route"
+import { createBackendUser, readSession, writeSession } from "../../_lib/session"
+import { readSignInToken } from "../../_lib/signInLink"
+
+// Back to the app with the outcome for the client to report
+function redirectToApp(request: Request, outcome: "signed-in" | "invalid-link"): Response {
+  const url = new URL("/", request.url)
+  url.searchParams.set("auth", outcome)
+  return Response.redirect(url, 303)
+}
+
+export const GET = withErrorHandling("/auth/verify", async (request) => {
+  const token = readSignInToken(new URL(request.url).searchParams.get("token"))
+  const provider = getAuthProvider()
+  if (!token || !(await provider.consumeSignInToken(token.id, token.expiresAt))) {
+    return redirectToApp(request, "invalid-link")
+  }
+
+  let account = await provider.findAccount(token.email)
+  if (!account) {
+    // Adopt the anonymous user on this device; a session signed in elsewhere keeps its own account
+    const current = await readSession()
+    const userId = current && !current.email ? current.userId : await createBackendUser()
+    account = await provider.createAccount({ email: token.email, userId })
+  }
+
+  await writeSession({ userId: account.userId, email: account.email })
+  return redirectToApp(request, "signed-in")
+})
@@ -0,0 +1,15 @@
+// POST /api/conversation/audio - multipart recording of a spoken question
+import { PAYLOAD_LIMITS, ProxyError, forwardToBackend, readFormBody, readSessionId } from "../../_lib/backend"
+import { withSession } from "../../_lib/route"
+
+const ENDPOINT = "/conversation/audio"
+
+export const POST = withSession(ENDPOINT, async (request, userId) => {
+  const formData = await readFormBody(request, PAYLOAD_LIMITS.conversationAudio)
+  if (!(formData.get("audio_file") instanceof Blob)) {
+    throw new ProxyError(400, "audio_file is required")
+  }
+  readSessionId(formData.get("session_id"))
+  formData.set("user_id", userId)
+  return forwardToBackend(request, ENDPOINT, { method: "POST", body: formData })
+})
@@ -0,0 +1,11 @@
+// GET /api/conversation/clear
+import { forwardToBackend, readSessionId } from "../../_lib/backend"
+import { withSession } from "../../_lib/route"
+
+const ENDPOINT = "/conversation/clear"
+
+export const GET = withSession(ENDPOINT, async (request, userId) => {
+  const sessionId = readSessionId(new URL(request.url).searchParams.get("session_id"))
+  const params: Record<string, string> = sessionId ? { user_id: userId, session_id: sessionId } : { user_id: userId }
+  return forwardToBackend(request, ENDPOINT, { method: "GET", params })
+})
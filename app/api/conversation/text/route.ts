@@ -0,0 +1,30 @@
+// POST /api/conversation/text
+import {
+  MAX_TEXT_QUERY_CHARS,
+  PAYLOAD_LIMITS,
+  ProxyError,
+  forwardToBackend,
+  readJsonBody,
+  readSessionId,
+} from "../../_lib/backend"
+import { withSession } from "../../_lib/route"
+
+const ENDPOINT = "/conversation/text"
+
+export const POST = withSession(ENDPOINT, async (request, userId) => {
+  const payload = await readJsonBody(request, PAYLOAD_LIMITS.conversationText)
+  if (typeof payload.text_query !== "string") {
+    throw new ProxyError(400, "text_query is required")
+  }
+  if (payload.text_query.length > MAX_TEXT_QUERY_CHARS) {
+    throw new ProxyError(413, `text_query exceeds ${MAX_TEXT_QUERY_CHARS} characters`)
+  }
+
+  const sessionId = readSessionId(payload.session_id)
+
+  return forwardToBackend(request, ENDPOINT, {
+    method: "POST",
+    body: JSON.stringify({ user_id: userId, session_id: sessionId, text_query: payload.text_query }),
+    headers: { "Content-Type": "application/json" },
+  })
+})
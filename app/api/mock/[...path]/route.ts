@@ -0,0 +1,54 @@
+// Local mock of the Foresight backend for offline development.
+// Point the client at it with NEXT_PUBLIC_API_BASE_URL=/api/mock
+import { MOCK_ROUTES } from "../_lib/mockBackend"
+import { applyFailure, delay, getFaultConfig, resolveFault, updateFaultConfig } from "../_lib/faults"
+
+// Route used to inspect or change latency/failure injection at runtime
+const CONTROL_PATH = "/_control"
+
+// The mock is only served in development unless explicitly enabled
+function isMockEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.ENABLE_MOCK_BACKEND === "true"
+}
+
+// Simple logger object
+const logger = {
+  log: (...args: unknown[]) => {
+    console.log("[mock-backend]", ...args)
+  },
+}
+
+async function handle(request: Request, context: { params: Promise<{ path: string[] }> }): Promise<Response> {
+  if (!isMockEnabled()) {
+    return new Response("Not found", { status: 404 })
+  }
+
+  const { path } = await context.params
+  const endpoint = `/${path.join("/")}`
+
+  if (endpoint === CONTROL_PATH) {
+    if (request.method === "POST") {
+      const update = (await request.json().catch(() => ({}))) as Record<string, unknown>
+      logger.log("Fault config updated:", update)
+      return Response.json(updateFaultConfig(update))
+    }
+    return Response.json(getFaultConfig())
+  }
+
+  const handler = MOCK_ROUTES[`${request.method} ${endpoint}`]
+  if (!handler) {
+    return Response.json({ error: `No mock for ${request.method} ${endpoint}` }, { status: 404 })
+  }
+
+  const { delayMs, failure } = resolveFault(request, endpoint)
+  logger.log(`${request.method} ${endpoint}`, delayMs ? `+${delayMs}ms` : "", failure !== "none" ? failure : "")
+  if (delayMs > 0) {
+    await delay(delayMs)
+  }
+
+  const failureResponse = await applyFailure(failure, endpoint)
+  return failureResponse ?? handler(request)
+}
+
+export const GET = handle
+export const POST = handle
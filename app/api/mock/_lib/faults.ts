@@ -0,0 +1,130 @@
+// Latency and failure injection for the mock backend
+//
+// Defaults come from the environment and can be changed at runtime with
+// POST /api/mock/_control. Individual requests can override them with the
+// x-mock-latency / x-mock-failure headers or mock_latency / mock_failure query params.
+
+export type MockFailureMode =
+  | "none"
+  | "server-error" // 500 with a JSON error body
+  | "bad-request" // 400 with a JSON error body
+  | "malformed" // 200 with a body that violates the API contract
+  | "timeout" // never answers within the client timeout
+
+export const MOCK_FAILURE_MODES: MockFailureMode[] = ["none", "server-error", "bad-request", "malformed", "timeout"]
+
+export interface MockFaultConfig {
+  // Fixed delay, or [min, max] range in milliseconds
+  latencyMs: number | [number, number]
+  failureMode: MockFailureMode
+  // Probability (0-1) that failureMode is applied to a request
+  failureRate: number
+  // Restrict failures to these endpoints (e.g. "/vision/upload"); empty means all
+  failureEndpoints: string[]
+}
+
+// How long the "timeout" mode holds the request open
+const TIMEOUT_HOLD_MS = 120000
+
+// Helper function to parse "300" or "200-800" into a latency setting
+function parseLatency(value: string | null | undefined): MockFaultConfig["latencyMs"] | undefined {
+  if (!value) return undefined
+  const [min, max] = value.split("-").map((part) => Number.parseInt(part, 10))
+  if (!Number.isFinite(min) || min < 0) return undefined
+  return Number.isFinite(max) && max >= min ? [min, max] : min
+}
+
+// Helper function to validate a failure mode string
+function parseFailureMode(value: string | null | undefined): MockFailureMode | undefined {
+  return MOCK_FAILURE_MODES.find((mode) => mode === value)
+}
+
+function parseRate(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const rate = Number.parseFloat(value)
+  return Number.isFinite(rate) ? Math.min(1, Math.max(0, rate)) : undefined
+}
+
+let faultConfig: MockFaultConfig = {
+  latencyMs: parseLatency(process.env.MOCK_LATENCY_MS) ?? 0,
+  failureMode: parseFailureMode(process.env.MOCK_FAILURE_MODE) ?? "none",
+  failureRate: parseRate(process.env.MOCK_FAILURE_RATE) ?? 1,
+  failureEndpoints: (process.env.MOCK_FAILURE_ENDPOINTS ?? "")
+    .split(",")
+    .map((endpoint) => endpoint.trim())
+    .filter(Boolean),
+}
+
+export function getFaultConfig(): MockFaultConfig {
+  return faultConfig
+}
+
+// Update the runtime fault configuration from a loosely typed control payload
+export function updateFaultConfig(update: Record<string, unknown>): MockFaultConfig {
+  const next = { ...faultConfig }
+
+  if (update.latencyMs !== undefined) {
+    next.latencyMs = parseLatency(String(update.latencyMs)) ?? next.latencyMs
+  }
+  if (update.failureMode !== undefined) {
+    next.failureMode = parseFailureMode(String(update.failureMode)) ?? next.failureMode
+  }
+  if (update.failureRate !== undefined) {
+    next.failureRate = parseRate(String(update.failureRate)) ?? next.failureRate
+  }
+  if (Array.isArray(update.failureEndpoints)) {
+    next.failureEndpoints = update.failureEndpoints.map(String)
+  }
+
+  faultConfig = next
+  return faultConfig
+}
+
+// Resolve the fault to apply to a single request, honouring per-request overrides
+export function resolveFault(request: Request, endpoint: string): { delayMs: number; failure: MockFailureMode } {
+  const url = new URL(request.url)
+
+  const latency =
+    parseLatency(request.headers.get("x-mock-latency") ?? url.searchParams.get("mock_latency")) ??
+    faultConfig.latencyMs
+  const delayMs = Array.isArray(latency)
+    ? latency[0] + Math.round(Math.random() * (latency[1] - latency[0]))
+    : latency
+
+  // An explicit per-request failure always applies
+  const requestedFailure = parseFailureMode(
+    request.headers.get("x-mock-failure") ?? url.searchParams.get("mock_failure"),
+  )
+  if (requestedFailure) {
+    return { delayMs, failure: requestedFailure }
+  }
+
+  const endpointMatches =
+    faultConfig.failureEndpoints.length === 0 || faultConfig.failureEndpoints.includes(endpoint)
+  const shouldFail =
+    faultConfig.failureMode !== "none" && endpointMatches && Math.random() < faultConfig.failureRate
+
+  return { delayMs, failure: shouldFail ? faultConfig.failureMode : "none" }
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Build the response for an injected failure, or null when the request should proceed normally
+export async function applyFailure(failure: MockFailureMode, endpoint: string): Promise<Response | null> {
+  switch (failure) {
+    case "server-error":
+      return Response.json({ error: `Mock server error on ${endpoint}` }, { status: 500 })
+    case "bad-request":
+      return Response.json({ error: `Mock bad request on ${endpoint}` }, { status: 400 })
+    case "timeout":
+      await delay(TIMEOUT_HOLD_MS)
+      return Response.json({ error: `Mock timeout on ${endpoint}` }, { status: 504 })
+    case "malformed":
+      // Valid JSON that matches none of the response models
+      return Response.json({ unexpected: true, endpoint })
+    default:
+      return null
+  }
+}
@@ -0,0 +1,226 @@
+// In-memory stand-in for the Foresight backend, implementing the contracts used by utils/api.ts
+import { synthesizeWav } from "./wav"
+
+type MockHandler = (request: Request) => Promise<Response>
+
+interface MockUserState {
+  framesSeen: number
+  lastFrameBytes: number
+  // Conversation turns per session id
+  sessions: Map<string, { question: string; answer: string }[]>
+}
+
+// Session used by requests that don't name one
+const DEFAULT_SESSION_ID = "default"
+
+// Canned answers cycled through by the conversation endpoints
+const CANNED_REPLIES = [
+  "I can see a well lit room. There is a table in front of you and a doorway to your left.",
+  "The path ahead looks clear for about three meters.",
+  "There is a person standing a few steps to your right.",
+  "I can see some text, but it is too far away to read. Try moving closer.",
+  "It looks like you are outdoors. There is a curb just ahead of you.",
+]
+
+// Scene changes reported in turn to uploads that ask to narrate
+const SCENE_CHANGES = [
+  { kind: "person", summary: "Someone is walking towards you from the left." },
+  { kind: "obstacle", summary: "There is a chair in your path, about two steps ahead." },
+  { kind: "text", summary: "There is a sign ahead that reads Exit." },
+]
+// Report a change on every this many narrated frames
+const SCENE_CHANGE_EVERY_FRAMES = 3
+
+// Size of each chunk when streaming TTS audio
+const TTS_CHUNK_BYTES = 8192
+
+const users = new Map<string, MockUserState>()
+
+// Helper to get (or lazily create) state for a user so the mock tolerates ids from previous runs
+function getUser(userId: string): MockUserState {
+  let state = users.get(userId)
+  if (!state) {
+    state = { framesSeen: 0, lastFrameBytes: 0, sessions: new Map() }
+    users.set(userId, state)
+  }
+  return state
+}
+
+function badRequest(message: string): Response {
+  return Response.json({ error: message }, { status: 400 })
+}
+
+// Helper to read a required query parameter
+function requireParam(request: Request, name: string): string | null {
+  return new URL(request.url).searchParams.get(name)
+}
+
+// Helper to get (or lazily create) the turns of one conversation session
+function getTurns(state: MockUserState, sessionId: unknown): { question: string; answer: string }[] {
+  const key = typeof sessionId === "string" && sessionId ? sessionId : DEFAULT_SESSION_ID
+  let turns = state.sessions.get(key)
+  if (!turns) {
+    turns = []
+    state.sessions.set(key, turns)
+  }
+  return turns
+}
+
+// Produce a canned reply that still reflects the question and the visual context
+function composeReply(state: MockUserState, turnCount: number, question: string): string {
+  const canned = CANNED_REPLIES[turnCount % CANNED_REPLIES.length]
+  const context =
+    state.framesSeen > 0
+      ? ` (Mock backend: ${state.framesSeen} frames received, you asked "${question}".)`
+      : ` (Mock backend: no frames received yet, you asked "${question}".)`
+  return canned + context
+}
+
+// 1. GET /user/create
+const createUser: MockHandler = async () => {
+  const userId = `mock-${crypto.randomUUID()}`
+  users.set(userId, { framesSeen: 0, lastFrameBytes: 0, sessions: new Map() })
+  return Response.json({ user_id: userId })
+}
+
+// Helper to read a vision upload sent either as base64 JSON or as multipart binary
+async function readVisionUpload(
+  request: Request,
+): Promise<{ userId: string; mimeType: string; bytes: number; narrate: boolean } | string> {
+  if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+    const formData = await request.formData().catch(() => null)
+    const userId = formData?.get("user_id")
+    const image = formData?.get("image_file")
+    if (typeof userId !== "string") return "user_id is required"
+    if (!(image instanceof Blob) || image.size === 0) return "image_file is required"
+    const mimeType = formData?.get("mime_type")
+    return {
+      userId,
+      mimeType: typeof mimeType === "string" ? mimeType : image.type,
+      bytes: image.size,
+      narrate: formData?.get("narrate") === "true",
+    }
+  }
+
+  const payload = (await request.json().catch(() => null)) as Record<string, unknown> | null
+  if (!payload || typeof payload.user_id !== "string") return "user_id is required"
+  if (typeof payload.image_base64 !== "string" || payload.image_base64.length === 0) {
+    return "image_base64 is required"
+  }
+  return {
+    userId: payload.user_id,
+    mimeType: typeof payload.mime_type === "string" ? payload.mime_type : "unknown type",
+    // base64 encodes 3 bytes in 4 characters
+    bytes: Math.floor((payload.image_base64.length * 3) / 4),
+    narrate: payload.narrate === true,
+  }
+}
+
+// 2. POST /vision/upload
+const uploadImage: MockHandler = async (request) => {
+  const upload = await readVisionUpload(request)
+  if (typeof upload === "string") return badRequest(upload)
+
+  const state = getUser(upload.userId)
+  state.framesSeen += 1
+  state.lastFrameBytes = upload.bytes
+
+  const changes =
+    upload.narrate && state.framesSeen % SCENE_CHANGE_EVERY_FRAMES === 0
+      ? [SCENE_CHANGES[(state.framesSeen / SCENE_CHANGE_EVERY_FRAMES - 1) % SCENE_CHANGES.length]]
+      : []
+
+  return Response.json({
+    message: "Image processed",
+    description: `Mock frame ${state.framesSeen} (${upload.bytes} bytes, ${upload.mimeType})`,
+    ...(upload.narrate && { changes }),
+  })
+}
+
+// 3. GET /vision/clear
+const clearVision: MockHandler = async (request) => {
+  const userId = requireParam(request, "user_id")
+  if (!userId) return badRequest("user_id is required")
+  const state = getUser(userId)
+  state.framesSeen = 0
+  state.lastFrameBytes = 0
+  return Response.json({ message: "Visual history cleared" })
+}
+
+// 4. POST /conversation/text
+const conversationText: MockHandler = async (request) => {
+  const payload = (await request.json().catch(() => null)) as Record<string, unknown> | null
+  if (!payload || typeof payload.user_id !== "string") return badRequest("user_id is required")
+  if (typeof payload.text_query !== "string" || !payload.text_query.trim()) {
+    return badRequest("text_query is required")
+  }
+
+  const state = getUser(payload.user_id)
+  const turns = getTurns(state, payload.session_id)
+  const answer = composeReply(state, turns.length, payload.text_query.trim())
+  turns.push({ question: payload.text_query, answer })
+  return Response.json({ text: answer })
+}
+
+// 5. POST /conversation/audio
+const conversationAudio: MockHandler = async (request) => {
+  const formData = await request.formData().catch(() => null)
+  const userId = formData?.get("user_id")
+  const audio = formData?.get("audio_file")
+  if (typeof userId !== "string") return badRequest("user_id is required")
+  if (!(audio instanceof Blob) || audio.size === 0) return badRequest("audio_file is required")
+
+  const state = getUser(userId)
+  const turns = getTurns(state, formData?.get("session_id"))
+  const question = `a ${Math.round(audio.size / 1024)} KB voice recording`
+  const answer = composeReply(state, turns.length, question)
+  turns.push({ question, answer })
+  return Response.json({ text: answer })
+}
+
+// 6. GET /conversation/clear
+const clearConversation: MockHandler = async (request) => {
+  const userId = requireParam(request, "user_id")
+  if (!userId) return badRequest("user_id is required")
+  getUser(userId).sessions.delete(requireParam(request, "session_id") || DEFAULT_SESSION_ID)
+  return Response.json({ message: "Conversation history cleared" })
+}
+
+// 7. GET /tts/generate - streams a generated WAV in chunks like the real backend
+const generateSpeech: MockHandler = async (request) => {
+  const text = requireParam(request, "text")
+  if (!requireParam(request, "user_id")) return badRequest("user_id is required")
+  if (!text) return badRequest("text is required")
+
+  const wav = synthesizeWav(text)
+  let offset = 0
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= wav.byteLength) {
+        controller.close()
+        return
+      }
+      controller.enqueue(wav.subarray(offset, offset + TTS_CHUNK_BYTES))
+      offset += TTS_CHUNK_BYTES
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "audio/wav",
+      "Content-Length": String(wav.byteLength),
+      "Cache-Control": "no-store",
+    },
+  })
+}
+
+// Routing table keyed by "METHOD /path", mirroring the real backend
+export const MOCK_ROUTES: Record<string, MockHandler> = {
+  "GET /user/create": createUser,
+  "POST /vision/upload": uploadImage,
+  "GET /vision/clear": clearVision,
+  "POST /conversation/text": conversationText,
+  "POST /conversation/audio": conversationAudio,
+  "GET /conversation/clear": clearConversation,
+  "GET /tts/generate": generateSpeech,
+}
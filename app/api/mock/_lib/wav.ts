@@ -0,0 +1,67 @@
+// Synthesizes a short speech-like WAV clip so the mock TTS endpoint returns playable audio
+
+const SAMPLE_RATE = 24000
+const BYTES_PER_SAMPLE = 2 // 16-bit PCM
+const CHANNELS = 1
+
+// Roughly one syllable-sized tone per word, clamped to a sensible clip length
+const SECONDS_PER_WORD = 0.28
+const MIN_DURATION_SECONDS = 0.6
+const MAX_DURATION_SECONDS = 8
+
+// Helper function to write an ASCII tag into the header
+function writeString(view: DataView, offset: number, value: string) {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i))
+  }
+}
+
+// Build a mono 16-bit PCM WAV whose length follows the number of words in the text.
+// Each word becomes a short enveloped tone so the clip "sounds" like an utterance.
+export function synthesizeWav(text: string): Uint8Array {
+  const words = text.trim().split(/\s+/).filter(Boolean)
+  const duration = Math.min(
+    MAX_DURATION_SECONDS,
+    Math.max(MIN_DURATION_SECONDS, words.length * SECONDS_PER_WORD),
+  )
+
+  const sampleCount = Math.floor(duration * SAMPLE_RATE)
+  const dataSize = sampleCount * BYTES_PER_SAMPLE * CHANNELS
+  const buffer = new ArrayBuffer(44 + dataSize)
+  const view = new DataView(buffer)
+
+  // RIFF header
+  writeString(view, 0, "RIFF")
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(view, 8, "WAVE")
+
+  // fmt chunk
+  writeString(view, 12, "fmt ")
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, CHANNELS, true)
+  view.setUint32(24, SAMPLE_RATE, true)
+  view.setUint32(28, SAMPLE_RATE * BYTES_PER_SAMPLE * CHANNELS, true)
+  view.setUint16(32, BYTES_PER_SAMPLE * CHANNELS, true)
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true)
+
+  // data chunk
+  writeString(view, 36, "data")
+  view.setUint32(40, dataSize, true)
+
+  const segmentSamples = Math.max(1, Math.floor(sampleCount / Math.max(1, words.length)))
+  for (let i = 0; i < sampleCount; i++) {
+    const segment = Math.floor(i / segmentSamples)
+    const positionInSegment = (i % segmentSamples) / segmentSamples
+
+    // Vary pitch per word so consecutive words are distinguishable
+    const frequency = 180 + ((words[segment]?.length ?? 3) % 6) * 25
+    // Fade in/out within each word, leaving a short gap between words
+    const envelope = positionInSegment < 0.8 ? Math.sin((positionInSegment / 0.8) * Math.PI) : 0
+
+    const sample = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 0.3
+    view.setInt16(44 + i * BYTES_PER_SAMPLE, Math.round(sample * 0x7fff), true)
+  }
+
+  return new Uint8Array(buffer)
+}
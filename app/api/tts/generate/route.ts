@@ -0,0 +1,34 @@
+// GET /api/tts/generate - the audio is streamed through as the backend produces it
+import { MAX_TTS_TEXT_CHARS, ProxyError, forwardToBackend } from "../../_lib/backend"
+import { withSession } from "../../_lib/route"
+
+const ENDPOINT = "/tts/generate"
+
+// Voice ids and BCP 47 language tags; anything else is rejected before reaching the backend
+const VOICE_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/
+const LANGUAGE_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8}){0,3}$/
+
+export const GET = withSession(ENDPOINT, async (request, userId) => {
+  const searchParams = new URL(request.url).searchParams
+  const text = searchParams.get("text")
+  if (!text) {
+    throw new ProxyError(400, "text is required")
+  }
+  if (text.length > MAX_TTS_TEXT_CHARS) {
+    throw new ProxyError(413, `text exceeds ${MAX_TTS_TEXT_CHARS} characters`)
+  }
+
+  const params: Record<string, string> = { text, user_id: userId }
+  const voice = searchParams.get("voice")
+  if (voice) {
+    if (!VOICE_PATTERN.test(voice)) throw new ProxyError(400, "voice is invalid")
+    params.voice = voice
+  }
+  const language = searchParams.get("language")
+  if (language) {
+    if (!LANGUAGE_PATTERN.test(language)) throw new ProxyError(400, "language is invalid")
+    params.language = language
+  }
+
+  return forwardToBackend(request, ENDPOINT, { method: "GET", params })
+})
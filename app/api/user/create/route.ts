@@ -0,0 +1,6 @@
+// GET /api/user/create - returns the session's user, creating one on first visit
+import { withSession } from "../../_lib/route"
+
+export const GET = withSession("/user/create", async (_request, userId) => {
+  return Response.json({ user_id: userId }, { headers: { "Cache-Control": "no-store" } })
+})
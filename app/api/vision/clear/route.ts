@@ -0,0 +1,9 @@
+// GET /api/vision/clear
+import { forwardToBackend } from "../../_lib/backend"
+import { withSession } from "../../_lib/route"
+
+const ENDPOINT = "/vision/clear"
+
+export const GET = withSession(ENDPOINT, async (request, userId) => {
+  return forwardToBackend(request, ENDPOINT, { method: "GET", params: { user_id: userId } })
+})
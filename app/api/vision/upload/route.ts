@@ -0,0 +1,20 @@
+// POST /api/vision/upload - accepts base64 JSON or multipart frames
+import { PAYLOAD_LIMITS, forwardToBackend, readFormBody, readJsonBody } from "../../_lib/backend"
+import { withSession } from "../../_lib/route"
+
+const ENDPOINT = "/vision/upload"
+
+export const POST = withSession(ENDPOINT, async (request, userId) => {
+  if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+    const formData = await readFormBody(request, PAYLOAD_LIMITS.visionUpload)
+    formData.set("user_id", userId)
+    return forwardToBackend(request, ENDPOINT, { method: "POST", body: formData })
+  }
+
+  const payload = await readJsonBody(request, PAYLOAD_LIMITS.visionUpload)
+  return forwardToBackend(request, ENDPOINT, {
+    method: "POST",
+    body: JSON.stringify({ ...payload, user_id: userId }),
+    headers: { "Content-Type": "application/json" },
+  })
+})
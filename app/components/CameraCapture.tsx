@@ -2,12 +2,33 @@
 
 import type React from "react"
 
-import { useRef, useCallback, useEffect, useState } from "react"
+import { useRef, useCallback, useEffect, useMemo, useState } from "react"
 import Webcam from "react-webcam"
 import { StatusDisplay } from "./ui/StatusDisplay"
-import { createUser, uploadImage, getUserId, sendAudioPrompt, generateSpeech } from "../utils/api"
+import { uploadImage, isRetryableApiError } from "../utils/api"
+import { markLiveFrameDelivered, queueLatestFrame } from "../utils/outbox"
 import { useAppStore } from "../store/useAppStore"
+import { createFrameScheduler, type FrameScheduler } from "../utils/frameScheduler"
+import { createFrameEncoder, IMAGE_QUALITY_PRESETS } from "../utils/imageEncoding"
+import { interruptConversation, isConversationBusy, useConversation } from "../hooks/useConversation"
+import { useHandsFree } from "../hooks/useHandsFree"
+import { useMediaDevices } from "../hooks/useMediaDevices"
+import { useOutboxSync } from "../hooks/useOutboxSync"
+import { useMessageAudioCleanup } from "../hooks/useMessageAudio"
+import { useFeedbackCues } from "../hooks/useFeedbackCues"
+import { handleNarratedUpload, isNarrating, stopNarration, toggleNarration, useNarration } from "../hooks/useNarration"
+import { useTextReading } from "../hooks/useTextReading"
+import { isGivingFramingGuidance, useFramingGuidance } from "../hooks/useFramingGuidance"
+import { consumeAuthRedirect, initializeSession } from "../hooks/useSession"
+import { useConversationStore } from "../store/useConversationStore"
+import { useSessionStore } from "../store/useSessionStore"
+import { startSpeechRecognition, type SpeechTranscription } from "../utils/speechRecognition"
+import { matchesWakeWord } from "../utils/voiceActivity"
+import { buildAudioConstraints, resolveMicProcessing } from "../utils/audioInput"
+import { applySpeechPreferences } from "../utils/speechOutput"
 import { AudioPlayer } from "./ui/AudioPlayer"
+import { HandsFreeIndicator } from "./ui/HandsFreeIndicator"
+import { StopAnswerButton } from "./ui/StopAnswerButton"
 import { motion, AnimatePresence } from "framer-motion"
 import Image from "next/image"
 
@@ -22,15 +43,28 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
   const audioRef = useRef<HTMLAudioElement | null>(null)
   const greetingAudioRef = useRef<HTMLAudioElement | null>(null)
   const audioChunksRef = useRef<Blob[]>([])
+  // Local speech-to-text running alongside the current recording (if the browser supports it)
+  const transcriptionRef = useRef<SpeechTranscription | null>(null)
+  // Whether the current recording was started by hands-free voice detection rather than a press
+  const handsFreeRecordingRef = useRef<boolean>(false)
+  // Set once the microphone has been granted, so iOS doesn't wait for another tap when it is reconfigured
+  const micPermissionGrantedRef = useRef<boolean>(false)
+  // Audio constraints the current recorder was created with
+  const micConstraintsKeyRef = useRef<string | null>(null)
   const pressTimerRef = useRef<NodeJS.Timeout | null>(null)
-  const imageUploadIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const frameSchedulerRef = useRef<FrameScheduler | null>(null)
   const touchStartPosRef = useRef<{ x: number; y: number } | null>(null)
   const isScrollingRef = useRef<boolean>(false)
+  const interactionAreaRef = useRef<HTMLDivElement | null>(null)
+  const keyHoldRef = useRef<boolean>(false)
+  // Double-tap detection for the narration toggle
+  const pressStartedAtRef = useRef<number | null>(null)
+  const lastTapAtRef = useRef<number>(0)
+  const lastTouchAtRef = useRef<number>(0)
   const visualFeedbackTimerRef = useRef<NodeJS.Timeout | null>(null)
   const greetingPlayedRef = useRef<boolean>(false)
 
-  // Local state for user ID
-  const [userId, setUserId] = useState<string | null>(null)
+  const userId = useSessionStore((state) => state.userId)
   const [lastImageTime, setLastImageTime] = useState<Date | null>(null)
 
   // Get state from Zustand store
@@ -40,25 +74,58 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
     isRecording,
     audioURL,
     cameraReady,
+    cameraDeviceId,
+    cameraFacingMode,
+    micDeviceId,
+    micProcessing,
     isIOSDevice,
     isPressing,
     mediaRecorder,
     hasUserInteracted,
-    userId: storeUserId,
+    imageQuality,
+    wakeWord,
+    isAnswerPlaying,
     setError,
     setStatusMessage,
     setIsRecording,
     setAudioURL,
     setCameraReady,
+    setCameraDeviceId,
+    setCameraFacingMode,
+    setMicDeviceId,
     setIsIOSDevice,
     setIsPressing,
     setMediaRecorder,
     setHasUserInteracted,
-    setUserId: setStoreUserId,
     handlePressStart,
     handlePressEnd,
   } = useAppStore()
 
+  const { sendAudio, isBusy: isConversationInFlight, stop: stopAnswer } = useConversation()
+  useOutboxSync()
+  useMessageAudioCleanup()
+  useFeedbackCues()
+  useNarration()
+  const { devices: cameras, refresh: refreshCameras } = useMediaDevices("videoinput")
+  const getVideo = useCallback(() => webcamRef.current?.video ?? null, [])
+  const { isReadingText, progress: textReadingProgress, readText } = useTextReading(getVideo)
+  const checkFrameQuality = useFramingGuidance()
+
+  // Bumped to remount the webcam and re-acquire its stream (e.g. after the camera was unplugged)
+  const [webcamKey, setWebcamKey] = useState(0)
+
+  // A chosen device wins; otherwise ask for the preferred side (back camera by default)
+  const videoConstraints = useMemo<MediaTrackConstraints>(
+    () =>
+      cameraDeviceId
+        ? { deviceId: { exact: cameraDeviceId }, width: 1280, height: 720 }
+        : { facingMode: cameraFacingMode, width: 1280, height: 720 },
+    [cameraDeviceId, cameraFacingMode],
+  )
+
+  // Latest quality preset, read by the frame scheduler without restarting it
+  const imageQualityRef = useRef(imageQuality)
+
   // Logger function
   const logger = (message: string) => {
     console.log(`[CameraCapture] ${message}`)
@@ -112,32 +179,76 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
       setError("")
       setStatusMessage("Camera ready")
 
+      // Device labels are only available once permission has been granted
+      refreshCameras()
+
+      // Re-acquire the stream if the camera goes away (unplugged, taken by another app)
+      stream.getVideoTracks().forEach((track) => {
+        track.addEventListener("ended", () => {
+          logger("Camera track ended, re-acquiring stream")
+          setCameraReady(false)
+          setStatusMessage("Camera disconnected, reconnecting...")
+          setWebcamKey((key) => key + 1)
+        })
+      })
+
       logger("Camera initialized successfully")
     },
-    [setupVideoElement, setCameraReady, setError, setStatusMessage],
+    [setupVideoElement, setCameraReady, setError, setStatusMessage, refreshCameras],
   )
 
   // Handle webcam errors
   const handleUserMediaError = useCallback(
     (error: string | DOMException) => {
       setCameraReady(false)
+
+      // The remembered camera is gone; fall back to the default one instead of failing
+      if (
+        cameraDeviceId &&
+        error instanceof DOMException &&
+        (error.name === "OverconstrainedError" || error.name === "NotFoundError")
+      ) {
+        logger(`Selected camera unavailable (${error.name}), falling back to default`)
+        setStatusMessage("Selected camera unavailable, switching to default camera")
+        setCameraDeviceId(null)
+        return
+      }
+
       const errorMessage = error instanceof DOMException ? error.message : error
       setError(`Camera error: ${errorMessage}`)
       setStatusMessage("Camera access failed")
       logger(`Camera error: ${errorMessage}`)
     },
-    [setCameraReady, setError, setStatusMessage],
+    [cameraDeviceId, setCameraDeviceId, setCameraReady, setError, setStatusMessage],
   )
 
+  // Forget a selected camera that has been unplugged so the default one is used
+  useEffect(() => {
+    if (cameraDeviceId && cameras.length > 0 && !cameras.some((camera) => camera.deviceId === cameraDeviceId)) {
+      logger("Selected camera disconnected, switching to default")
+      setStatusMessage("Selected camera disconnected, switching to default camera")
+      setCameraDeviceId(null)
+    }
+  }, [cameras, cameraDeviceId, setCameraDeviceId, setStatusMessage])
+
+  // Switch between front and back cameras
+  const handleFlipCamera = useCallback(() => {
+    const nextFacingMode = cameraFacingMode === "environment" ? "user" : "environment"
+    setCameraDeviceId(null)
+    setCameraFacingMode(nextFacingMode)
+    setStatusMessage(nextFacingMode === "user" ? "Switched to front camera" : "Switched to back camera")
+    logger(`Flipped camera to ${nextFacingMode}`)
+  }, [cameraFacingMode, setCameraDeviceId, setCameraFacingMode, setStatusMessage])
+
   // Set up on component mount
   useEffect(() => {
     if (isVideoStopped) {
-      // Only clear the image upload interval when video is stopped
+      // Only stop the frame scheduler when video is stopped
       // but keep the camera stream active
-      if (imageUploadIntervalRef.current) {
-        clearInterval(imageUploadIntervalRef.current)
-        imageUploadIntervalRef.current = null
-        logger("Image upload interval cleared")
+      if (frameSchedulerRef.current) {
+        frameSchedulerRef.current.stop()
+        frameSchedulerRef.current = null
+        logger("Frame scheduler stopped")
       }
 
       // Don't return early, continue with camera setup
@@ -160,7 +271,8 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
     navigator.mediaDevices
       .getUserMedia({
         video: {
-          facingMode: isIOSDevice ? "environment" : "environment",
+          // Read directly so switching cameras later doesn't re-run this permission request
+          facingMode: useAppStore.getState().cameraFacingMode,
           width: { ideal: 1280 },
           height: { ideal: 720 },
         },
@@ -192,40 +304,25 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
     }
   }, [isIOSDevice, setupVideoElement, setError, setStatusMessage, initializeCamera, isVideoStopped])
 
-  // Create user on component mount
+  // Resolve the user on component mount
   useEffect(() => {
     if (isVideoStopped) return
 
     async function initializeUser() {
       try {
         setStatusMessage("Initializing Foresight system...")
-        logger("Checking for existing user ID...")
-
-        // First check if we already have a user ID in the store
-        if (storeUserId) {
-          logger(`Using existing user ID from store: ${storeUserId}`)
-          setUserId(storeUserId)
-          setStatusMessage("System ready. Activating visual feed...")
-          return
-        }
+        await initializeSession()
 
-        // Then check localStorage via the API utility
-        const existingUserId = getUserId()
-        if (existingUserId) {
-          logger(`Found user ID in localStorage: ${existingUserId}`)
-          setUserId(existingUserId)
-          setStoreUserId(existingUserId) // Sync with store
-          setStatusMessage("System ready. Activating visual feed...")
-          return
+        const authOutcome = consumeAuthRedirect()
+        if (authOutcome === "invalid-link") {
+          setError("That sign-in link is invalid or has expired. Please request a new one.")
         }
-
-        // If no existing user ID, create a new one
-        logger("No existing user ID found, creating new user...")
-        const newUserId = await createUser()
-        setUserId(newUserId)
-        setStoreUserId(newUserId) // Sync with store
-        setStatusMessage("System ready. Activating visual feed...")
-        logger(`User initialized successfully with ID: ${newUserId}`)
+        const { email } = useSessionStore.getState()
+        setStatusMessage(
+          authOutcome === "signed-in" && email
+            ? `Signed in as ${email}. Activating visual feed...`
+            : "System ready. Activating visual feed...",
+        )
       } catch (err) {
         setError("Failed to create or retrieve user. Please refresh.")
         setStatusMessage("Error with user initialization")
@@ -234,7 +331,7 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
     }
 
     initializeUser()
-  }, [setError, setStatusMessage, storeUserId, setStoreUserId, isVideoStopped])
+  }, [setError, setStatusMessage, isVideoStopped])
 
   // Set video attributes when webcam component mounts
   useEffect(() => {
@@ -243,12 +340,17 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
     }
   }, [webcamRef.current, setupVideoElement])
 
-  // Set up interval for sending images when camera is ready and user exists
+  // Keep the quality preset ref in sync with the store
+  useEffect(() => {
+    imageQualityRef.current = imageQuality
+  }, [imageQuality])
+
+  // Start the adaptive frame scheduler when camera is ready and user exists
   useEffect(() => {
     if (isVideoStopped) {
-      if (imageUploadIntervalRef.current) {
-        clearInterval(imageUploadIntervalRef.current)
-        imageUploadIntervalRef.current = null
+      if (frameSchedulerRef.current) {
+        frameSchedulerRef.current.stop()
+        frameSchedulerRef.current = null
         setStatusMessage("Video feed paused. Analysis suspended.")
         logger("Video stopped. Image uploads halted.")
       }
@@ -259,50 +361,84 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
       setStatusMessage("Visual analysis system activated")
       logger("Starting image uploads")
 
-      imageUploadIntervalRef.current = setInterval(async () => {
-        if (!webcamRef.current || !userId) return
+      const encodeFrame = createFrameEncoder()
 
-        const imageSrc = webcamRef.current.getScreenshot()
-
-        if (imageSrc) {
-          try {
-            const base64Response = await fetch(imageSrc)
-            const imageBlob = await base64Response.blob()
+      // Statuses of the frame loop change with every frame, so they aren't announced
+      const uploadFrame = async () => {
+        const video = webcamRef.current?.video
+        if (!video) {
+          setStatusMessage("Camera feed disrupted. Reconnecting...", false)
+          throw new Error("Failed to capture image from webcam")
+        }
 
-            setStatusMessage("Analyzing visual context...")
-            logger(`Uploading image for user ${userId}`)
-            setLastImageTime(new Date())
+        let frame
+        try {
+          frame = await encodeFrame(video, IMAGE_QUALITY_PRESETS[imageQualityRef.current])
+        } catch (err: unknown) {
+          const errorMsg = err instanceof Error ? err.message : "Unknown error"
+          setError(`Image preparation error: ${errorMsg}`)
+          setStatusMessage("Visual processing error. Reestablishing connection...", false)
+          throw err
+        }
+        if (!frame) {
+          setStatusMessage("Camera feed disrupted. Reconnecting...", false)
+          throw new Error("Failed to capture image from webcam")
+        }
 
-            try {
-              const result = await uploadImage(userId, imageBlob)
-              logger("Image uploaded successfully")
-              setStatusMessage("Visual analysis complete")
-            } catch (err: any) {
-              //setError(`Upload error: ${err.message || "Unknown error"}`)
-              setStatusMessage("Analysis interrupted. Resuming...")
-              //logger(`Upload error: ${err.message || "Unknown error"}`)
-            }
-          } catch (err: any) {
-            setError(`Image preparation error: ${err.message || "Unknown error"}`)
-            setStatusMessage("Visual processing error. Reestablishing connection...")
-            logger(`Image preparation error: ${err.message || "Unknown error"}`)
+        setStatusMessage("Analyzing visual context...", false)
+        logger(
+          `Uploading ${frame.width}x${frame.height} ${frame.mimeType} (${Math.round(frame.blob.size / 1024)} KB, q=${frame.quality.toFixed(2)}) for user ${userId}`,
+        )
+        setLastImageTime(new Date())
+
+        const narrate = useAppStore.getState().narrationEnabled
+        let result
+        try {
+          result = await uploadImage(userId, frame.blob, { narrate })
+        } catch (uploadError) {
+          // Keep the latest view so the backend has fresh context as soon as it's reachable
+          if (isRetryableApiError(uploadError)) {
+            queueLatestFrame(userId, frame.blob).catch((queueError) => logger(`Could not queue frame: ${queueError}`))
           }
-        } else {
-          setStatusMessage("Camera feed disrupted. Reconnecting...")
-          logger("Failed to capture image from webcam")
+          throw uploadError
         }
-      }, 3333)
+        markLiveFrameDelivered()
+        setStatusMessage("Visual analysis complete", false)
+        if (narrate) handleNarratedUpload(result.changes)
+      }
+
+      const scheduler = createFrameScheduler({
+        getVideo: () => webcamRef.current?.video ?? null,
+        uploadFrame,
+        // Dark, blurry frames would only waste an analysis
+        checkQuality: checkFrameQuality,
+        onTick: (event) => {
+          if (event.type === "uploaded") {
+            logger(`Image uploaded successfully, next frame in ${event.nextDelayMs}ms`)
+          } else if (event.type === "skipped") {
+            logger(`Scene unchanged (diff ${event.change.toFixed(3)}), skipping frame`)
+          } else if (event.type === "rejected") {
+            logger(`Frame not usable (${event.issue}), checking again in ${event.nextDelayMs}ms`)
+          } else {
+            setStatusMessage("Analysis interrupted. Resuming...", false)
+            const errorMsg = event.error instanceof Error ? event.error.message : "Unknown error"
+            logger(`Upload failed (${event.failures} in a row): ${errorMsg}. Retrying in ${event.nextDelayMs}ms`)
+          }
+        },
+      })
+      frameSchedulerRef.current = scheduler
+      scheduler.start()
 
       return () => {
-        if (imageUploadIntervalRef.current) {
-          clearInterval(imageUploadIntervalRef.current)
-          imageUploadIntervalRef.current = null
-          setStatusMessage("Visual analysis paused")
-          logger("Stopped image uploads")
+        scheduler.stop()
+        if (frameSchedulerRef.current === scheduler) {
+          frameSchedulerRef.current = null
         }
+        setStatusMessage("Visual analysis paused")
+        logger("Stopped image uploads")
       }
     }
-  }, [cameraReady, userId, setError, setStatusMessage, isVideoStopped])
+  }, [cameraReady, userId, setError, setStatusMessage, isVideoStopped, checkFrameQuality])
 
   // Play greeting audio when app starts
   useEffect(() => {
@@ -316,8 +452,9 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
         // Create audio element if it doesn't exist
         if (!greetingAudioRef.current) {
           greetingAudioRef.current = new Audio("/greeting.mp3")
-          greetingAudioRef.current.volume = 0.8
         }
+        // The greeting sits a little below answers in the mix
+        applySpeechPreferences(greetingAudioRef.current, useAppStore.getState().speechPreferences, 0.8)
         
         // Play the greeting
         const playPromise = greetingAudioRef.current.play()
@@ -373,17 +510,11 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
 
       // Function to request audio permissions
       const setupAudioRecording = () => {
-        // iOS requires user interaction before requesting audio permissions
-        // We'll use different constraints for iOS devices
-        const audioConstraints = isIOSDevice
-          ? {
-              audio: {
-                echoCancellation: false,
-                noiseSuppression: false,
-                autoGainControl: false,
-              },
-            }
-          : { audio: true }
+        // Use the chosen microphone and its processing settings (iOS defaults to processing off)
+        const { micDeviceId: deviceId, micProcessing: savedProcessing } = useAppStore.getState()
+        const audioConstraints = {
+          audio: buildAudioConstraints(deviceId, resolveMicProcessing(savedProcessing, deviceId, isIOSDevice)),
+        }
 
         logger(`Requesting audio permissions with constraints: ${JSON.stringify(audioConstraints)}`)
 
@@ -391,6 +522,7 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
           .getUserMedia(audioConstraints)
           .then((stream) => {
             logger("Got audio stream")
+            micPermissionGrantedRef.current = true
 
             // iOS Safari requires specific MIME types
             const mimeType = isIOSDevice ? "audio/mp4" : "audio/webm"
@@ -408,7 +540,7 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
             }
 
             // Set up data handling
-            recorder.ondataavailable = async (e) => {
+            recorder.ondataavailable = (e) => {
               if (e.data.size > 0) {
                 logger(`Audio data received: ${e.data.size} bytes`)
                 audioChunksRef.current.push(e.data)
@@ -426,113 +558,35 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
                   // Clear audio chunks for next recording
                   audioChunksRef.current = []
 
-                  try {
-                    setStatusMessage("Processing your question...")
-                    logger("Sending audio to server")
-                  } catch (error) {
-                    setError("Failed to send audio. Please refresh.")
-                    setStatusMessage("Audio upload failed")
-                    logger("Failed to send audio")
-                  }
+                  // Collect the local transcript (if any) for display in the chat history
+                  const localTranscript = transcriptionRef.current?.stop()
+                  transcriptionRef.current = null
 
-                  if (userId) {
-                    try {
-                      const response = await sendAudioPrompt(userId, audioBlob)
-                      setStatusMessage(`Question received. Analyzing...`)
-                      logger("Audio sent successfully")
-
-                      try {
-                        setStatusMessage("Generating response...")
-                        // Ensure response is a string before passing to generateSpeech
-                        const responseText = typeof response === 'string' 
-                          ? response 
-                          : response && typeof response === 'object' && 'text' in response 
-                            ? String(response.text)
-                            : JSON.stringify(response)
-                        
-                        const speechResult = await generateSpeech(userId, responseText)
-
-                        // Always convert to Blob for consistent handling
-                        let speechBlob: Blob
-
-                        if (speechResult instanceof Blob) {
-                          // Already a Blob, use it directly
-                          speechBlob = speechResult
-                          logger("Received speech as Blob")
-                        } else {
-                          // Convert ReadableStream to Blob - wait for complete download
-                          logger("Received speech as ReadableStream, converting to Blob and waiting for full download")
-                          setStatusMessage("Preparing audio response...")
-
-                          try {
-                            const reader = speechResult.getReader()
-                            const chunks: Uint8Array[] = []
-
-                            // Read the entire stream before proceeding
-                            while (true) {
-                              const { done, value } = await reader.read()
-                              if (done) {
-                                logger("Stream reading complete, all chunks received")
-                                break
-                              }
-                              if (value) {
-                                chunks.push(value)
-                                logger(`Received chunk: ${value.byteLength} bytes`)
-                              }
-                            }
-
-                            if (chunks.length > 0) {
-                              // Concatenate chunks and create a Blob
-                              const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0)
-                              const allChunks = new Uint8Array(totalLength)
-                              let position = 0
-                              for (const chunk of chunks) {
-                                allChunks.set(chunk, position)
-                                position += chunk.length
-                              }
-
-                              speechBlob = new Blob([allChunks], { type: "audio/mpeg" })
-                              logger(`Created Blob from ${chunks.length} chunks, total size: ${speechBlob.size} bytes`)
-                              setStatusMessage("Response ready")
-                            } else {
-                              throw new Error("No audio data received from stream")
-                            }
-                          } catch (streamError) {
-                            logger(`Error converting stream to Blob: ${streamError}`)
-                            throw streamError
-                          }
-                        }
-
-                        // Create object URL from the Blob
-                        const speechUrl = URL.createObjectURL(speechBlob)
-                        logger(`Created URL for speech: ${speechUrl}`)
-
-                        // First, clear any previous audio URL to reset the audio player
-                        setAudioURL("")
-
-                        // Then set the new audio URL after a small delay to ensure clean reset
-                        setTimeout(() => {
-                          // Update the audio URL in the store - THIS IS THE AI RESPONSE AUDIO
-                          setAudioURL(speechUrl)
-                          setStatusMessage(isVideoStopped ? "Foresight response ready" : "Foresight response ready")
-                          logger("Speech generated and fully downloaded")
-
-                          // Let the AudioPlayer handle playback instead of doing it here
-                          // This avoids the double-playback issue
-                        }, 100)
-                      } catch (speechError: any) {
-                        setError(`Speech generation failed: ${speechError.message || "Unknown error"}`)
-                        setStatusMessage("Could not generate speech from response")
-                        logger(`Speech generation failed: ${speechError.message || "Unknown error"}`)
-                      }
-                    } catch (error: any) {
-                      setError(`Failed to send audio: ${error.message || "Unknown error"}`)
-                      setStatusMessage("Audio upload failed")
-                      logger(`Failed to send audio: ${error.message || "Unknown error"}`)
+                  // Hands-free recordings are only sent when they contain the wake word (if one is set)
+                  const requiredWakeWord = handsFreeRecordingRef.current ? useAppStore.getState().wakeWord.trim() : ""
+                  handsFreeRecordingRef.current = false
+
+                  if (requiredWakeWord) {
+                    if (!localTranscript) {
+                      setStatusMessage("Wake word needs speech recognition, which this browser doesn't support")
+                      logger("Wake word set but speech recognition is unavailable, recording discarded")
+                      return
                     }
-                  } else {
-                    throw new Error("User ID not available")
+                    localTranscript.then((transcript) => {
+                      if (transcript && matchesWakeWord(transcript, requiredWakeWord)) {
+                        logger("Wake word heard, sending audio to server")
+                        sendAudio(audioBlob, Promise.resolve(transcript))
+                      } else {
+                        setStatusMessage(`Say "${requiredWakeWord}" to ask a question`)
+                        logger("Wake word not heard, recording discarded")
+                      }
+                    })
+                    return
                   }
+
+                  // Hand the question to the shared conversation pipeline
+                  logger("Sending audio to server")
+                  sendAudio(audioBlob, localTranscript)
                 }
               }
             }
@@ -546,6 +600,15 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
             logger("Audio recording ready")
           })
           .catch((err) => {
+            // The remembered microphone is gone; retry with the system default
+            if (deviceId && (err.name === "OverconstrainedError" || err.name === "NotFoundError")) {
+              logger(`Selected microphone unavailable (${err.name}), falling back to default`)
+              setStatusMessage("Selected microphone unavailable, switching to default microphone")
+              setMicDeviceId(null)
+              setupAudioRecording()
+              return
+            }
+
             setError(`Could not access microphone: ${err.message}. Please check permissions.`)
             setStatusMessage("Microphone access error")
             logger(`Microphone access error: ${err.message}`)
@@ -553,7 +616,7 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
       }
 
       // For iOS, we need to wait for a user interaction before requesting audio permissions
-      if (isIOSDevice) {
+      if (isIOSDevice && !micPermissionGrantedRef.current) {
         setStatusMessage("Tap anywhere to enable voice recognition")
         logger("Waiting for user interaction before requesting audio permissions on iOS")
 
@@ -585,15 +648,48 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
     cameraReady,
     isIOSDevice,
     mediaRecorder,
-    setAudioURL,
+    sendAudio,
     setError,
     setIsRecording,
     setMediaRecorder,
+    setMicDeviceId,
     setStatusMessage,
-    userId,
     isVideoStopped,
   ])
 
+  // Recreate the recorder when the microphone or its processing settings change
+  const micConstraintsKey = JSON.stringify(
+    buildAudioConstraints(micDeviceId, resolveMicProcessing(micProcessing, micDeviceId, isIOSDevice)),
+  )
+  useEffect(() => {
+    if (micConstraintsKeyRef.current === null || !mediaRecorder) {
+      micConstraintsKeyRef.current = micConstraintsKey
+      return
+    }
+    // Wait until the current question has been recorded
+    if (micConstraintsKeyRef.current === micConstraintsKey || isRecording) return
+
+    micConstraintsKeyRef.current = micConstraintsKey
+    logger("Microphone settings changed, recreating recorder")
+    mediaRecorder.stream.getTracks().forEach((track) => track.stop())
+    setMediaRecorder(null)
+  }, [micConstraintsKey, isRecording, mediaRecorder, setMediaRecorder])
+
+  // Transcribe locally as a fallback for backends that don't return what was heard. Started from the store
+  // because press-and-hold recordings are started by its press timer, not by handleRecordingStart.
+  useEffect(() => {
+    const unsubscribe = useAppStore.subscribe((state, previous) => {
+      if (!state.isRecording || previous.isRecording) return
+      transcriptionRef.current?.abort()
+      transcriptionRef.current = startSpeechRecognition()
+    })
+    // Stop any in-progress transcription on unmount
+    return () => {
+      unsubscribe()
+      transcriptionRef.current?.abort()
+    }
+  }, [])
+
   // Handle recording start
   const handleRecordingStart = useCallback(() => {
     // Allow recording even when video is stopped
@@ -620,6 +716,8 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
     if (mediaRecorder && isRecording) {
       try {
         mediaRecorder.stop()
+        // Start finalizing the transcript now; the data handler picks up the same result
+        transcriptionRef.current?.stop()
         setStatusMessage("Processing your request...")
         logger("Recording stopped")
       } catch (error) {
@@ -631,36 +729,98 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
     }
   }, [isRecording, mediaRecorder, setError, setStatusMessage])
 
+  // Hands-free mode: voice activity starts and stops recording instead of a press
+  const handleHandsFreeSpeechStart = useCallback(() => {
+    if (useAppStore.getState().isRecording) return
+    handsFreeRecordingRef.current = true
+    handleRecordingStart()
+  }, [handleRecordingStart])
+
+  const handleHandsFreeSpeechEnd = useCallback(() => {
+    if (handsFreeRecordingRef.current) {
+      handleRecordingStop()
+    }
+  }, [handleRecordingStop])
+
+  // Ignore the microphone while the user is pressing, a question is in flight or Foresight is speaking
+  const isHandsFreePaused = useCallback(() => {
+    const appState = useAppStore.getState()
+    // Text read aloud by the device's own voice doesn't go through the player
+    const answerPlaying = (!!audioRef.current && !audioRef.current.paused) || appState.isAnswerPlaying
+    return (
+      appState.isPressing ||
+      (appState.isRecording && !handsFreeRecordingRef.current) ||
+      isConversationBusy(useConversationStore.getState().phase) ||
+      answerPlaying ||
+      isNarrating() ||
+      isGivingFramingGuidance()
+    )
+  }, [])
+
+  const { status: handsFreeStatus, levelRef: handsFreeLevelRef } = useHandsFree({
+    stream: mediaRecorder?.stream ?? null,
+    onSpeechStart: handleHandsFreeSpeechStart,
+    onSpeechEnd: handleHandsFreeSpeechEnd,
+    isPaused: isHandsFreePaused,
+  })
+
+  // Start a press from any input: pointer, touch or a held key
+  const beginPress = useCallback(() => {
+    // Allow pressing even when video is stopped
+    if (isPressing) return
+    isScrollingRef.current = false
+    handsFreeRecordingRef.current = false
+    pressStartedAtRef.current = Date.now()
+
+    // We no longer need to set visual feedback for the camera view
+    // as we're using the edge glow effect instead
+
+    // Barge-in: a new press silences the current answer and discards the turn still in flight
+    if (isConversationBusy(useConversationStore.getState().phase) || useAppStore.getState().isAnswerPlaying) {
+      logger("Interrupting current answer")
+      interruptConversation()
+    }
+
+    handlePressStart()
+    pressTimerRef.current = setTimeout(() => {
+      if (isPressing && !isScrollingRef.current) {
+        handleRecordingStart()
+      }
+    }, 500)
+  }, [handlePressStart, handleRecordingStart, isPressing])
+
   // Handle press start
   const handlePress = useCallback(
     (e: React.MouseEvent | React.TouchEvent) => {
-      // Allow pressing even when video is stopped
-      if (!isPressing) {
-        isScrollingRef.current = false
-
-        // Store the initial touch position for touch events
-        if ("touches" in e) {
-          const touch = e.touches[0]
-          touchStartPosRef.current = {
-            x: touch.clientX,
-            y: touch.clientY,
-          }
-        }
-
-        // We no longer need to set visual feedback for the camera view
-        // as we're using the edge glow effect instead
+      if (isPressing) return
 
-        handlePressStart()
-        pressTimerRef.current = setTimeout(() => {
-          if (isPressing && !isScrollingRef.current) {
-            handleRecordingStart()
-          }
-        }, 500)
+      // Store the initial touch position for touch events
+      if ("touches" in e) {
+        const touch = e.touches[0]
+        touchStartPosRef.current = {
+          x: touch.clientX,
+          y: touch.clientY,
+        }
       }
+
+      beginPress()
     },
-    [handlePressStart, handleRecordingStart, isPressing],
+    [beginPress, isPressing],
   )
 
+  // Escape stops the answer (or a narration) on keyboards
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return
+      stopNarration()
+      if (isConversationBusy(useConversationStore.getState().phase) || useAppStore.getState().isAnswerPlaying) {
+        stopAnswer()
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [stopAnswer])
+
   // Handle touch move to detect scrolling
   const handleTouchMove = useCallback(
     (e: React.TouchEvent) => {
@@ -731,6 +891,87 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
     handlePressEnd()
   }, [handlePressEnd, handleRecordingStop, isRecording, isVideoStopped])
 
+  // Two quick taps on the camera view toggle narration
+  const detectDoubleTap = useCallback(
+    (e: React.MouseEvent | React.TouchEvent) => {
+      const now = Date.now()
+      // Touch is followed by emulated mouse events, which mustn't count as another tap
+      if ("touches" in e) {
+        lastTouchAtRef.current = now
+      } else if (now - lastTouchAtRef.current < 800) {
+        return
+      }
+
+      const pressStartedAt = pressStartedAtRef.current
+      pressStartedAtRef.current = null
+      // A press long enough to start recording (or a scroll) isn't a tap
+      if (pressStartedAt === null || now - pressStartedAt > 250 || isRecording || isScrollingRef.current) {
+        lastTapAtRef.current = 0
+        return
+      }
+      if (now - lastTapAtRef.current < 400) {
+        lastTapAtRef.current = 0
+        toggleNarration()
+      } else {
+        lastTapAtRef.current = now
+      }
+    },
+    [isRecording],
+  )
+
+  const handlePointerRelease = useCallback(
+    (e: React.MouseEvent | React.TouchEvent) => {
+      detectDoubleTap(e)
+      handlePressRelease()
+    },
+    [detectDoubleTap, handlePressRelease],
+  )
+
+  // Keyboard and switch access: holding Space (or Enter on the focused capture area) works like press-and-hold,
+  // N toggles narration and R reads text. Keys only count when nothing else has focus, so they still type in inputs.
+  useEffect(() => {
+    const isHoldKey = (e: KeyboardEvent) => e.key === " " || e.key === "Enter"
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const onCaptureArea = e.target === interactionAreaRef.current
+      if (!onCaptureArea && e.target !== document.body) return
+      const isShortcut = !e.repeat && !e.ctrlKey && !e.metaKey && !e.altKey
+      if (isShortcut && e.key.toLowerCase() === "n") {
+        toggleNarration()
+        return
+      }
+      if (isShortcut && e.key.toLowerCase() === "r") {
+        if (cameraReady) readText()
+        return
+      }
+      if (!isHoldKey(e) || (e.key === "Enter" && !onCaptureArea)) return
+      // Stop the page from scrolling, and ignore auto-repeat while the key is held
+      e.preventDefault()
+      if (e.repeat || keyHoldRef.current) return
+      keyHoldRef.current = true
+      beginPress()
+    }
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (!keyHoldRef.current || !isHoldKey(e)) return
+      e.preventDefault()
+      keyHoldRef.current = false
+      handlePressRelease()
+    }
+    // Switching away mid-hold never delivers the keyup
+    const handleBlur = () => {
+      if (!keyHoldRef.current) return
+      keyHoldRef.current = false
+      handlePressRelease()
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("keyup", handleKeyUp)
+    window.addEventListener("blur", handleBlur)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", handleBlur)
+    }
+  }, [beginPress, handlePressRelease, cameraReady, readText])
+
   // Cleanup timer on unmount
   useEffect(() => {
     return () => {
@@ -766,17 +1007,18 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
       <div className="relative flex-1 flex flex-col items-center overflow-hidden rounded-3xl max-h-[70vh] md:max-h-none">
         {/* Webcam with conditional blur when video is stopped */}
         <Webcam
+          key={webcamKey}
           ref={webcamRef}
           audio={false}
           screenshotFormat="image/jpeg"
-          videoConstraints={{
-            width: 1280,
-            height: 720,
-            facingMode: isIOSDevice ? "environment" : "environment",
-          }}
+          videoConstraints={videoConstraints}
+          // Mirror the front camera like a regular selfie view (display only)
+          mirrored={!cameraDeviceId && cameraFacingMode === "user"}
           className={`rounded-3xl shadow-lg w-full h-full object-cover ${isVideoStopped ? "filter blur-md" : ""}`}
           onUserMedia={handleUserMedia}
           onUserMediaError={handleUserMediaError}
+          // The preview is described by the capture area on top of it
+          aria-hidden="true"
         />
 
         {/* Small video paused indicator */}
@@ -802,16 +1044,99 @@ export default function CameraCapture({ isVideoStopped = false }: CameraCaptureP
           </div>
         )}
 
+        {/* Flip between front and back cameras */}
+        {cameras.length > 1 && (
+          <button
+            onClick={handleFlipCamera}
+            // Keep the tap from starting a press-and-hold recording
+            onMouseDown={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+            className="absolute bottom-4 right-4 z-20 w-10 h-10 rounded-full bg-black/50 backdrop-blur-sm flex items-center justify-center text-white hover:bg-black/70 transition-colors"
+            aria-label={cameraFacingMode === "environment" ? "Switch to front camera" : "Switch to back camera"}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M20 7h-3.5l-2-3h-5l-2 3H4a2 2 0 0 0-2 2v9a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2V9a2 2 0 0 0-2-2z"></path>
+              <path d="M9 13.5a3 3 0 0 1 5.2-2"></path>
+              <polyline points="14.5 9.5 14.5 11.5 12.5 11.5"></polyline>
+              <path d="M15 14.5a3 3 0 0 1-5.2 2"></path>
+              <polyline points="9.5 18.5 9.5 16.5 11.5 16.5"></polyline>
+            </svg>
+          </button>
+        )}
+
+        {/* Read the text in view (signs, labels, pages) from a high-resolution photo */}
+        {cameraReady && (
+          <button
+            onClick={readText}
+            // Keep the tap from starting a press-and-hold recording
+            onMouseDown={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+            disabled={isReadingText}
+            className="absolute bottom-4 left-4 z-20 h-10 px-3 rounded-full bg-black/50 backdrop-blur-sm flex items-center gap-2 text-white text-sm hover:bg-black/70 transition-colors disabled:cursor-wait"
+            aria-label={isReadingText ? "Reading text" : "Read text aloud"}
+            aria-busy={isReadingText}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className={isReadingText ? "animate-pulse" : ""}
+            >
+              <polyline points="4 7 4 4 20 4 20 7"></polyline>
+              <line x1="9" y1="20" x2="15" y2="20"></line>
+              <line x1="12" y1="4" x2="12" y2="20"></line>
+            </svg>
+            <span aria-hidden="true">
+              {isReadingText
+                ? textReadingProgress > 0
+                  ? `${Math.round(textReadingProgress * 100)}%`
+                  : "Reading..."
+                : "Read text"}
+            </span>
+          </button>
+        )}
+
+        {/* Hands-free listening indicator */}
+        <HandsFreeIndicator status={handsFreeStatus} levelRef={handsFreeLevelRef} wakeWord={wakeWord.trim()} />
+
         {/* Interaction area */}
         <div
-          className="absolute inset-0 rounded-3xl"
+          ref={interactionAreaRef}
+          role="button"
+          tabIndex={0}
+          aria-label={
+            isRecording
+              ? "Listening. Release to send your question."
+              : "Ask Foresight about what the camera sees. Press and hold, or hold Space, to speak. " +
+                "Double-tap, or press N, to turn narration on or off. Press R to read text aloud."
+          }
+          className="absolute inset-0 rounded-3xl touch-manipulation focus:outline-none focus-visible:ring-2 focus-visible:ring-[#6A81FB] focus-visible:ring-inset"
           onMouseDown={handlePress}
-          onMouseUp={handlePressRelease}
+          onMouseUp={handlePointerRelease}
           onTouchStart={handlePress}
           onTouchMove={handleTouchMove}
-          onTouchEnd={handlePressRelease}
+          onTouchEnd={handlePointerRelease}
         />
 
+        {/* Stop the answer being fetched or spoken */}
+        <StopAnswerButton visible={isConversationInFlight || isAnswerPlaying} onStop={stopAnswer} />
+
       </div>
 
       {/* Status Display - guaranteed to be visible */}
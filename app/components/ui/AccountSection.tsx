@@ -0,0 +1,122 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { useSession } from "../../hooks/useSession"
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[AccountSection] ${message}`)
+}
+
+// Sign-in by email link, so the same conversation memory follows the user to other devices
+export function AccountSection() {
+  const { email, isSignedIn, accountsAvailable, sendSignInLink, signOut } = useSession()
+  const [emailInput, setEmailInput] = useState("")
+  const [isBusy, setIsBusy] = useState(false)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  // Only returned by the local development provider
+  const [previewLink, setPreviewLink] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSendLink = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const address = emailInput.trim()
+    if (!address || isBusy) return
+
+    setIsBusy(true)
+    setError(null)
+    try {
+      const result = await sendSignInLink(address)
+      setSentTo(address)
+      setPreviewLink(result.preview_link ?? null)
+    } catch (err) {
+      setError("Couldn't send a sign-in link. Check the address and try again.")
+      logger(`Sign-in link failed: ${err}`)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleSignOut = async () => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await signOut()
+      setSentTo(null)
+      setPreviewLink(null)
+    } catch (err) {
+      setError("Couldn't sign out. Please try again.")
+      logger(`Sign-out failed: ${err}`)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="mt-5">
+      <h3 className="text-sm font-medium text-slate-300 mb-2">Account</h3>
+
+      {!accountsAvailable ? (
+        <p className="text-xs text-slate-500">Accounts aren&apos;t available with the configured backend.</p>
+      ) : isSignedIn ? (
+        <div className="space-y-2">
+          <p className="text-sm text-white">
+            Signed in as <span className="font-medium">{email}</span>
+          </p>
+          <p className="text-[10px] text-slate-500">
+            Signing in with the same email on another device uses the same account there. Conversations and
+            their memory stay on the device where they were started.
+          </p>
+          <button
+            onClick={handleSignOut}
+            disabled={isBusy}
+            className="w-full py-2 px-4 rounded-xl text-sm bg-slate-800/50 text-slate-300 border border-slate-700/50 hover:text-white transition-colors disabled:opacity-40"
+          >
+            {isBusy ? "Signing out..." : "Sign out"}
+          </button>
+          <p className="text-[10px] text-slate-500">Signing out also clears the chat history on this device.</p>
+        </div>
+      ) : sentTo ? (
+        <div className="space-y-2">
+          <p className="text-sm text-white">Check {sentTo} for a sign-in link.</p>
+          {previewLink && (
+            <a href={previewLink} className="block text-xs text-[#6A81FB] underline break-all">
+              Open sign-in link (development)
+            </a>
+          )}
+          <button
+            onClick={() => setSentTo(null)}
+            className="text-xs text-slate-400 hover:text-white transition-colors"
+          >
+            Use a different email
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleSendLink} className="space-y-2">
+          <p className="text-[10px] text-slate-500">
+            Sign in to use the same account on your other devices. Conversations stay on this device.
+          </p>
+          <input
+            type="email"
+            value={emailInput}
+            onChange={(e) => setEmailInput(e.target.value)}
+            placeholder="you@example.com"
+            autoComplete="email"
+            aria-label="Email address"
+            className="w-full bg-slate-800/50 border border-slate-700/50 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-[#6A81FB]"
+          />
+          <button
+            type="submit"
+            disabled={isBusy || !emailInput.trim()}
+            className="w-full py-2 px-4 rounded-xl text-sm text-white bg-gradient-to-r from-[#6A81FB] to-[#E15B73] hover:opacity-90 transition-opacity disabled:opacity-40"
+          >
+            {isBusy ? "Sending..." : "Email me a sign-in link"}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-[#FF7270] mt-2">{error}</p>}
+    </div>
+  )
+}
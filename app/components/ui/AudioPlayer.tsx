@@ -4,6 +4,7 @@ import type React from "react"
 
 import { type RefObject, useEffect, useState, useRef } from "react"
 import { useAppStore } from "../../store/useAppStore"
+import { attachPlaybackElement, usePlaybackStore } from "../../store/usePlaybackStore"
 import { motion } from "framer-motion"
 
 interface AudioPlayerProps {
@@ -73,10 +74,19 @@ export function AudioPlayer({ audioURL, audioRef }: AudioPlayerProps) {
       setIsPlaying(false)
       setProgress(0)
 
+      // Streamed audio reports Infinity/NaN until the stream ends
+      const knownDuration = () => (Number.isFinite(element.duration) ? element.duration : 0)
+      // Per-message controls in the chat follow the same element
+      const reportProgress = () => usePlaybackStore.getState().setProgress(element.currentTime, knownDuration())
+      const updateDuration = () => {
+        setDuration(knownDuration())
+        reportProgress()
+      }
+
       const onCanPlay = () => {
         console.log("[AudioPlayer] Audio can play")
         setIsLoading(false)
-        setDuration(element.duration)
+        updateDuration()
 
         // Only attempt autoplay if we haven't tried yet for this audio
         if (!hasAutoPlayedRef.current) {
@@ -85,11 +95,16 @@ export function AudioPlayer({ audioURL, audioRef }: AudioPlayerProps) {
         }
       }
 
-      const onTimeUpdate = () => setProgress(element.currentTime)
+      const onTimeUpdate = () => {
+        setProgress(element.currentTime)
+        reportProgress()
+      }
 
       const onEnded = () => {
         console.log("[AudioPlayer] Playback ended")
         setIsPlaying(false)
+        useAppStore.getState().setIsAnswerPlaying(false)
+        usePlaybackStore.getState().setIsPlaying(false)
         setProgress(0)
         element.currentTime = 0
         element.pause()
@@ -101,10 +116,19 @@ export function AudioPlayer({ audioURL, audioRef }: AudioPlayerProps) {
         setIsLoading(false)
       }
 
-      const onPlaying = () => setIsPlaying(true)
-      const onPause = () => setIsPlaying(false)
+      const onPlaying = () => {
+        setIsPlaying(true)
+        useAppStore.getState().setIsAnswerPlaying(true)
+        usePlaybackStore.getState().setIsPlaying(true)
+      }
+      const onPause = () => {
+        setIsPlaying(false)
+        useAppStore.getState().setIsAnswerPlaying(false)
+        usePlaybackStore.getState().setIsPlaying(false)
+      }
 
       element.addEventListener("canplay", onCanPlay)
+      element.addEventListener("durationchange", updateDuration)
       element.addEventListener("timeupdate", onTimeUpdate)
       element.addEventListener("ended", onEnded)
       element.addEventListener("error", onError)
@@ -118,6 +142,7 @@ export function AudioPlayer({ audioURL, audioRef }: AudioPlayerProps) {
       element.setAttribute("playsinline", "") // Important for iOS
       element.setAttribute("webkit-playsinline", "") // For older iOS
       element.load() // Load the audio but don't try to autoplay with attribute
+      attachPlaybackElement(element)
 
       // Unmute after a short delay
       setTimeout(() => {
@@ -131,6 +156,7 @@ export function AudioPlayer({ audioURL, audioRef }: AudioPlayerProps) {
         }
 
         element.removeEventListener("canplay", onCanPlay)
+        element.removeEventListener("durationchange", updateDuration)
         element.removeEventListener("timeupdate", onTimeUpdate)
         element.removeEventListener("ended", onEnded)
         element.removeEventListener("error", onError)
@@ -141,6 +167,8 @@ export function AudioPlayer({ audioURL, audioRef }: AudioPlayerProps) {
         element.pause()
         element.currentTime = 0
         element.src = ""
+        useAppStore.getState().setIsAnswerPlaying(false)
+        attachPlaybackElement(null)
       }
     }
 
@@ -202,12 +230,12 @@ export function AudioPlayer({ audioURL, audioRef }: AudioPlayerProps) {
     if (playPromise !== undefined) {
       playPromise
         .then(() => {
-          console.log("[AudioPlayer] Autoplay successful, starting at full volume")
-          element.volume = 1
+          console.log("[AudioPlayer] Autoplay successful, starting at the preferred volume")
+          element.volume = useAppStore.getState().speechPreferences.volume
         })
         .catch((e) => {
           console.error("[AudioPlayer] Auto-play failed:", e)
-          element.volume = 1
+          element.volume = useAppStore.getState().speechPreferences.volume
         })
     }
 
@@ -231,8 +259,8 @@ export function AudioPlayer({ audioURL, audioRef }: AudioPlayerProps) {
         audioElement.currentTime = 0
       }
 
-      // Ensure volume is set to full for manual play
-      audioElement.volume = 1
+      // Ensure volume is back at the preferred level for manual play
+      audioElement.volume = useAppStore.getState().speechPreferences.volume
 
       // On mobile, we need to ensure the play happens in response to a user gesture
       const playPromise = audioElement.play()
@@ -307,6 +335,7 @@ export function AudioPlayer({ audioURL, audioRef }: AudioPlayerProps) {
               onClick={togglePlayback}
               className={`${isPlaying ? "bg-gradient-to-r from-[#E15B73] to-[#FF7270]" : "bg-gradient-to-r from-[#FF7270] to-[#E15B73] hover:from-[#FF7270] hover:to-[#E15B73]"} text-white rounded-full w-12 h-12 flex items-center justify-center mr-4 flex-shrink-0 shadow-lg transition-all duration-300 transform ${isPlaying ? "scale-95" : "scale-100"}`}
               disabled={!audioURL || isLoading}
+              aria-label={isLoading ? "Loading answer" : isPlaying ? "Pause answer" : "Play answer"}
             >
               {isLoading ? (
                 <svg
@@ -356,7 +385,7 @@ export function AudioPlayer({ audioURL, audioRef }: AudioPlayerProps) {
               <div className="relative w-full h-1 bg-slate-700 rounded-full overflow-hidden">
                 <div
                   className="absolute top-0 left-0 h-full bg-gradient-to-r from-[#6A81FB] to-[#E15B73] rounded-full"
-                  style={{ width: `${(progress / duration) * 100}%` }}
+                  style={{ width: `${duration > 0 ? (progress / duration) * 100 : 0}%` }}
                 ></div>
               </div>
               <input
@@ -367,11 +396,13 @@ export function AudioPlayer({ audioURL, audioRef }: AudioPlayerProps) {
                 onChange={handleSeek}
                 className="absolute w-full opacity-0 cursor-pointer"
                 disabled={!audioURL || duration === 0 || isLoading}
+                aria-label="Seek answer"
+                aria-valuetext={`${formatTime(progress)} of ${formatTime(duration)}`}
                 style={{ margin: 0, height: "4px", width: "calc(100% - 80px)", marginLeft: "48px" }}
               />
               <div className="flex justify-between text-xs text-slate-400 mt-2">
                 <span>{formatTime(progress)}</span>
-                <span>{formatTime(duration)}</span>
+                <span>{duration > 0 ? formatTime(duration) : "--:--"}</span>
               </div>
             </div>
           </div>
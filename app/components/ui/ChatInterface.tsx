@@ -2,41 +2,145 @@
 
 import type React from "react"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useMemo } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import { sendTextPrompt, generateSpeech } from "../../utils/api"
-import { useAppStore } from "../../store/useAppStore"
-import { useChatStore, type ChatMessage } from "../../store/useChatStore"
+import { type ChatMessage, conversationLabel, useChatStore } from "../../store/useChatStore"
+import { useSessionStore } from "../../store/useSessionStore"
+import { useConversation } from "../../hooks/useConversation"
+import { useDialogFocus } from "../../hooks/useDialogFocus"
+import { ConversationList } from "./ConversationList"
+import { MessagePlayback } from "./MessagePlayback"
+
+// Short description of where a message is in its lifecycle, if there is anything to say
+function describeStatus(message: ChatMessage): string | null {
+  if (message.sender === "ai") {
+    if (message.status === "streaming") return "Preparing voice..."
+    if (message.status === "error") return "Voice unavailable"
+    return null
+  }
+
+  if (message.status === "pending") {
+    return message.delivery === "queued" ? "Waiting for connection..." : "Sending..."
+  }
+  if (message.status === "error") {
+    return message.delivery === "failed" ? "Not sent" : "Not answered"
+  }
+  return message.delivery === "sent" ? "Sent" : null
+}
+
+interface MessageStatusProps {
+  message: ChatMessage
+  onRetry: () => void
+}
+
+function MessageStatus({ message, onRetry }: MessageStatusProps) {
+  const description = describeStatus(message)
+  if (!description) return null
+
+  return (
+    <p
+      className={`flex items-center text-[10px] mt-1 ${
+        message.status === "error" ? "text-[#FF7270]" : "text-slate-400"
+      }`}
+    >
+      {description}
+      {message.status === "error" && (
+        <button type="button" onClick={onRetry} className="ml-2 underline hover:text-white transition-colors">
+          Retry
+        </button>
+      )}
+    </p>
+  )
+}
+
+// Copies a message's text, e.g. text read from the camera, to paste it elsewhere
+function CopyTextButton({ text }: { text: string }) {
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    if (!copied) return
+    const timer = setTimeout(() => setCopied(false), 2000)
+    return () => clearTimeout(timer)
+  }, [copied])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(true)
+    } catch (error) {
+      console.error("[ChatInterface] Copy failed:", error)
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className="mr-2 flex items-center text-[10px] text-slate-500 hover:text-white transition-colors"
+      aria-label={copied ? "Text copied" : "Copy text"}
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        className="h-3 w-3 mr-1"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        {copied ? (
+          <polyline points="20 6 9 17 4 12"></polyline>
+        ) : (
+          <>
+            <rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect>
+            <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path>
+          </>
+        )}
+      </svg>
+      {copied ? "Copied" : "Copy"}
+    </button>
+  )
+}
 
 export function ChatInterface() {
   const [isOpen, setIsOpen] = useState(false)
+  const [showConversations, setShowConversations] = useState(false)
   const [inputValue, setInputValue] = useState("")
-  const [isLoading, setIsLoading] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
-  const { userId, setAudioURL, setStatusMessage, setError } = useAppStore()
-  const { messages, addMessage, clearMessages } = useChatStore()
+  const dialogRef = useRef<HTMLDivElement>(null)
+  const userId = useSessionStore((state) => state.userId)
+  const { conversations, activeConversationId, messages: allMessages, clearMessages, removeMessage } = useChatStore()
+  const { isBusy, sendText, retry, stop } = useConversation()
+  const activeConversation = conversations.find((conversation) => conversation.id === activeConversationId)
+  const messages = useMemo(
+    () => allMessages.filter((msg) => msg.conversationId === activeConversationId),
+    [allMessages, activeConversationId],
+  )
 
   // Scroll to bottom of messages when new messages are added
   useEffect(() => {
-    if (messagesEndRef.current && isOpen) {
+    if (messagesEndRef.current && isOpen && !showConversations) {
       messagesEndRef.current.scrollIntoView({ behavior: "smooth" })
     }
-  }, [messages, isOpen])
+  }, [messages, isOpen, showConversations])
 
-  // Focus input when chat is opened
+  // Focus input when chat is opened or a conversation is picked
   useEffect(() => {
-    if (isOpen && inputRef.current) {
+    if (isOpen && !showConversations && inputRef.current) {
       setTimeout(() => {
         inputRef.current?.focus()
       }, 300)
     }
-  }, [isOpen])
+  }, [isOpen, showConversations])
 
   const toggleChat = () => {
     setIsOpen(!isOpen)
   }
 
+  useDialogFocus(isOpen, dialogRef, () => setIsOpen(false))
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setInputValue(e.target.value)
   }
@@ -44,130 +148,11 @@ export function ChatInterface() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!inputValue.trim() || !userId || isLoading) return
+    const text = inputValue.trim()
+    if (!text || !userId || isBusy) return
 
-    const userMessage: ChatMessage = {
-      id: Date.now().toString(),
-      text: inputValue,
-      sender: "user",
-      timestamp: new Date(),
-    }
-
-    addMessage(userMessage)
     setInputValue("")
-    setIsLoading(true)
-    setStatusMessage("Processing your message...")
-
-    try {
-      // Send the message to the API
-      const response = await sendTextPrompt(userId, inputValue.trim())
-      console.log("[ChatInterface] Text prompt response:", response)
-      
-      // Extract text from response
-      const responseText = typeof response === 'string' ? response : 
-                          (response && typeof response === 'object' && 'text' in response) ? 
-                          (response as { text: string }).text : 
-                          "I didn't understand that. Could you try again?"
-      
-      // Create AI response message
-      const aiMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        text: responseText,
-        sender: "ai",
-        timestamp: new Date(),
-      }
-
-      addMessage(aiMessage)
-      setStatusMessage("Message processed successfully")
-
-      // Generate speech from the AI response
-      try {
-        setStatusMessage("Generating speech from response...")
-        const speechResult = await generateSpeech(userId, responseText)
-
-        // Convert to Blob for audio playback
-        let speechBlob: Blob
-
-
-        if (speechResult instanceof Blob) {
-          speechBlob = speechResult
-        } else {
-          // Handle ReadableStream
-          const reader = speechResult.getReader()
-          const chunks: Uint8Array[] = []
-
-          while (true) {
-            const { done, value } = await reader.read()
-            if (done) break
-            if (value) chunks.push(value)
-          }
-
-          if (chunks.length > 0) {
-            const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0)
-            const allChunks = new Uint8Array(totalLength)
-            let position = 0
-
-            for (const chunk of chunks) {
-              allChunks.set(chunk, position)
-              position += chunk.length
-            }
-
-            speechBlob = new Blob([allChunks], { type: "audio/mpeg" })
-          } else {
-            throw new Error("No audio data received")
-          }
-        }
-
-        // Create URL for audio playback
-        const speechUrl = URL.createObjectURL(speechBlob)
-        
-        // Update the AI message to include the audio URL
-        const updatedAiMessage = {
-          ...aiMessage,
-          audioUrl: speechUrl
-        }
-        
-        // Replace the previous AI message with the updated one that includes the audio URL
-        const updatedMessages = messages.map(msg => 
-          msg.id === aiMessage.id ? updatedAiMessage : msg
-        )
-        
-        // Update the messages in the store
-        // This is a workaround since we can't directly modify the message after adding it
-        clearMessages()
-        updatedMessages.forEach(msg => addMessage(msg))
-
-        // Reset audio URL first to ensure clean playback
-        setAudioURL("")
-
-        // Set the new audio URL after a small delay
-        setTimeout(() => {
-          setAudioURL(speechUrl)
-          setStatusMessage("Audio ready to play")
-        }, 100)
-      } catch (speechError: unknown) {
-        console.error("Speech generation error:", speechError)
-        const speechErrorMsg = speechError instanceof Error ? speechError.message : "Unknown error"
-        setError(`Speech generation failed: ${speechErrorMsg}`)
-      }
-    } catch (error: unknown) {
-      console.error("Error sending message:", error)
-      const errorMsg = error instanceof Error ? error.message : "Unknown error"
-      setError(`Failed to send message: ${errorMsg}`)
-
-      // Add error message to chat
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        text: "Sorry, there was an error processing your message. Please try again.",
-        sender: "ai",
-        timestamp: new Date(),
-      }
-
-      addMessage(errorMessage)
-    } finally {
-      setIsLoading(false)
-      setStatusMessage("Ready")
-    }
+    await sendText(text)
   }
 
   return (
@@ -176,9 +161,12 @@ export function ChatInterface() {
       <button
         onClick={toggleChat}
         className="fixed bottom-20 right-4 z-30 w-12 h-12 rounded-full bg-gradient-to-r from-[#6A81FB] to-[#E15B73] flex items-center justify-center shadow-lg"
-        aria-label="Toggle chat"
+        aria-label={isOpen ? "Close chat" : "Open chat"}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
       >
         <svg
+          aria-hidden="true"
           xmlns="http://www.w3.org/2000/svg"
           width="20"
           height="20"
@@ -197,7 +185,10 @@ export function ChatInterface() {
 
         {/* Message notification badge */}
         {messages.length > 0 && (
-          <span className="absolute -top-1 -right-1 bg-[#FF7270] text-white text-xs w-5 h-5 flex items-center justify-center rounded-full">
+          <span
+            aria-hidden="true"
+            className="absolute -top-1 -right-1 bg-[#FF7270] text-white text-xs w-5 h-5 flex items-center justify-center rounded-full"
+          >
             {messages.filter((m) => m.sender === "ai").length}
           </span>
         )}
@@ -219,21 +210,68 @@ export function ChatInterface() {
               initial={{ y: 100 }}
               animate={{ y: 0 }}
               exit={{ y: 100 }}
-              className="bg-[#1D1D1D] border border-slate-700/50 rounded-2xl w-full max-w-md h-[70vh] max-h-[600px] z-50 flex flex-col overflow-hidden shadow-xl"
+              className="bg-[#1D1D1D] border border-slate-700/50 rounded-2xl w-full max-w-md h-[70vh] max-h-[600px] z-50 flex flex-col overflow-hidden shadow-xl focus:outline-none"
               onClick={(e) => e.stopPropagation()}
+              ref={dialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="chat-title"
+              aria-describedby="chat-subtitle"
+              tabIndex={-1}
             >
               {/* Chat header */}
               <div className="p-4 border-b border-slate-700/50 flex items-center justify-between">
-                <h2 className="text-lg font-bold bg-gradient-to-r from-[#FF7270] to-[#E15B73] bg-clip-text text-transparent">
-                  Foresight Chat
-                </h2>
+                <div className="min-w-0">
+                  <h2
+                    id="chat-title"
+                    className="text-lg font-bold bg-gradient-to-r from-[#FF7270] to-[#E15B73] bg-clip-text text-transparent"
+                  >
+                    Foresight Chat
+                  </h2>
+                  <p id="chat-subtitle" className="text-xs text-slate-400 truncate">
+                    {showConversations
+                      ? "Conversations"
+                      : activeConversation && conversationLabel(activeConversation, allMessages)}
+                  </p>
+                </div>
                 <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setShowConversations(!showConversations)}
+                    className={`transition-colors p-2 ${
+                      showConversations ? "text-white" : "text-slate-400 hover:text-white"
+                    }`}
+                    title="Conversations"
+                    aria-label="Conversations"
+                    aria-pressed={showConversations}
+                  >
+                    <svg
+                      aria-hidden="true"
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <line x1="8" y1="6" x2="21" y2="6"></line>
+                      <line x1="8" y1="12" x2="21" y2="12"></line>
+                      <line x1="8" y1="18" x2="21" y2="18"></line>
+                      <line x1="3" y1="6" x2="3.01" y2="6"></line>
+                      <line x1="3" y1="12" x2="3.01" y2="12"></line>
+                      <line x1="3" y1="18" x2="3.01" y2="18"></line>
+                    </svg>
+                  </button>
                   <button
                     onClick={clearMessages}
                     className="text-slate-400 hover:text-white transition-colors p-2"
                     title="Clear chat history"
+                    aria-label="Clear chat history"
                   >
                     <svg
+                      aria-hidden="true"
                       xmlns="http://www.w3.org/2000/svg"
                       width="16"
                       height="16"
@@ -249,8 +287,13 @@ export function ChatInterface() {
                       <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"></path>
                     </svg>
                   </button>
-                  <button onClick={toggleChat} className="text-slate-400 hover:text-white transition-colors">
+                  <button
+                    onClick={toggleChat}
+                    className="text-slate-400 hover:text-white transition-colors"
+                    aria-label="Close chat"
+                  >
                     <svg
+                      aria-hidden="true"
                       xmlns="http://www.w3.org/2000/svg"
                       width="20"
                       height="20"
@@ -268,128 +311,154 @@ export function ChatInterface() {
                 </div>
               </div>
 
-              {/* Messages container */}
-              <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                {messages.length === 0 ? (
-                  <div className="h-full flex flex-col items-center justify-center text-slate-500 text-center p-4">
-                    <svg
-                      xmlns="http://www.w3.org/2000/svg"
-                      width="40"
-                      height="40"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="1"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      className="mb-4 text-slate-600"
-                    >
-                      <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path>
-                    </svg>
-                    <p className="text-sm">No messages yet. Start a conversation with Foresight.</p>
-                  </div>
-                ) : (
-                  messages.map((message) => (
-                    <div
-                      key={message.id}
-                      className={`flex ${message.sender === "user" ? "justify-end" : "justify-start"}`}
-                    >
-                      <div
-                        className={`max-w-[80%] rounded-2xl px-4 py-3 ${
-                          message.sender === "user"
-                            ? "bg-gradient-to-r from-[#6A81FB]/20 to-[#6A81FB]/10 text-white border border-[#6A81FB]/20"
-                            : "bg-gradient-to-r from-[#E15B73]/20 to-[#FF7270]/10 text-white border border-[#E15B73]/20"
-                        }`}
-                      >
-                        <p className="text-sm">{message.text}</p>
-                        {message.audioUrl && message.sender === "ai" && (
-                          <div className="flex items-center mt-2 text-xs text-[#E15B73]">
-                            <svg
-                              xmlns="http://www.w3.org/2000/svg"
-                              className="h-3 w-3 mr-1"
-                              viewBox="0 0 24 24"
-                              fill="none"
-                              stroke="currentColor"
-                              strokeWidth="2"
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                            >
-                              <path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"></path>
-                              <path d="M19 10v2a7 7 0 0 1-14 0v-2"></path>
-                              <line x1="12" x2="12" y1="19" y2="22"></line>
-                            </svg>
-                            [Audio Message]
-                          </div>
-                        )}
-                        <p className="text-xs text-slate-400 mt-1 text-right">
-                          {new Date(message.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
-                        </p>
-                      </div>
-                    </div>
-                  ))
-                )}
-                <div ref={messagesEndRef} />
-              </div>
-
-              {/* Message input */}
-              <form onSubmit={handleSubmit} className="p-4 border-t border-slate-700/50">
-                <div className="flex items-center">
-                  <input
-                    ref={inputRef}
-                    type="text"
-                    value={inputValue}
-                    onChange={handleInputChange}
-                    placeholder="Type a message..."
-                    className="flex-1 bg-slate-800/50 border border-slate-700/50 rounded-l-xl px-4 py-3 text-white focus:outline-none focus:ring-1 focus:ring-[#6A81FB]"
-                    disabled={isLoading}
-                  />
-                  <button
-                    type="submit"
-                    className={`bg-gradient-to-r from-[#6A81FB] to-[#E15B73] text-white rounded-r-xl px-4 py-3 ${
-                      isLoading ? "opacity-50 cursor-not-allowed" : "hover:opacity-90"
-                    }`}
-                    disabled={isLoading}
-                  >
-                    {isLoading ? (
-                      <svg
-                        className="animate-spin h-5 w-5"
-                        xmlns="http://www.w3.org/2000/svg"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                      >
-                        <circle
-                          className="opacity-25"
-                          cx="12"
-                          cy="12"
-                          r="10"
+              {showConversations ? (
+                  <ConversationList onOpen={() => setShowConversations(false)} />
+              ) : (
+                <>
+                  {/* Messages container */}
+                  <div className="flex-1 overflow-y-auto p-4 space-y-4" role="log" aria-label="Messages">
+                    {messages.length === 0 ? (
+                      <div className="h-full flex flex-col items-center justify-center text-slate-500 text-center p-4">
+                        <svg
+                          xmlns="http://www.w3.org/2000/svg"
+                          width="40"
+                          height="40"
+                          viewBox="0 0 24 24"
+                          fill="none"
                           stroke="currentColor"
-                          strokeWidth="4"
-                        ></circle>
-                        <path
-                          className="opacity-75"
-                          fill="currentColor"
-                          d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                        ></path>
-                      </svg>
+                          strokeWidth="1"
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          className="mb-4 text-slate-600"
+                        >
+                          <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path>
+                        </svg>
+                        <p className="text-sm">No messages yet. Start a conversation with Foresight.</p>
+                      </div>
                     ) : (
-                      <svg
-                        xmlns="http://www.w3.org/2000/svg"
-                        width="20"
-                        height="20"
-                        viewBox="0 0 24 24"
-                        fill="none"
-                        stroke="currentColor"
-                        strokeWidth="2"
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                      >
-                        <line x1="22" y1="2" x2="11" y2="13"></line>
-                        <polygon points="22 2 15 22 11 13 2 9 22 2"></polygon>
-                      </svg>
+                      messages.map((message) => (
+                        <div
+                          key={message.id}
+                          className={`flex ${message.sender === "user" ? "justify-end" : "justify-start"}`}
+                        >
+                          <div
+                            className={`max-w-[80%] rounded-2xl px-4 py-3 ${
+                              message.sender === "user"
+                                ? "bg-gradient-to-r from-[#6A81FB]/20 to-[#6A81FB]/10 text-white border border-[#6A81FB]/20"
+                                : "bg-gradient-to-r from-[#E15B73]/20 to-[#FF7270]/10 text-white border border-[#E15B73]/20"
+                            }`}
+                          >
+                            <p className={`text-sm ${message.source === "ocr" ? "whitespace-pre-wrap break-words" : ""}`}>
+                              <span className="sr-only">
+                                {message.sender === "user"
+                                  ? "You: "
+                                  : message.source === "ocr"
+                                    ? "Text from camera: "
+                                    : "Foresight: "}
+                              </span>
+                              {message.text}
+                            </p>
+                            <MessagePlayback message={message} />
+                            <MessageStatus message={message} onRetry={() => retry(message.id)} />
+                            {message.transcriptSource === "device" && (
+                              <p className="text-[10px] text-slate-500 mt-1">Transcribed on this device</p>
+                            )}
+                            {message.source === "ocr" && (
+                              <p className="text-[10px] text-slate-500 mt-1">Read from the camera on this device</p>
+                            )}
+                            <div className="flex items-center justify-end mt-1">
+                              {message.source === "ocr" && <CopyTextButton text={message.text} />}
+                              <button
+                                type="button"
+                                onClick={() => removeMessage(message.id)}
+                                className="mr-2 text-slate-500 hover:text-white transition-colors"
+                                aria-label="Delete message"
+                              >
+                                <svg
+                                  xmlns="http://www.w3.org/2000/svg"
+                                  className="h-3 w-3"
+                                  viewBox="0 0 24 24"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  strokeWidth="2"
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                >
+                                  <line x1="18" y1="6" x2="6" y2="18"></line>
+                                  <line x1="6" y1="6" x2="18" y2="18"></line>
+                                </svg>
+                              </button>
+                              <p className="text-xs text-slate-400">
+                                {new Date(message.timestamp).toLocaleTimeString([], {
+                                  hour: "2-digit",
+                                  minute: "2-digit",
+                                })}
+                              </p>
+                            </div>
+                          </div>
+                        </div>
+                      ))
                     )}
-                  </button>
-                </div>
-              </form>
+                    <div ref={messagesEndRef} />
+                  </div>
+
+                  {/* Message input */}
+                  <form onSubmit={handleSubmit} className="p-4 border-t border-slate-700/50">
+                    <div className="flex items-center">
+                      <input
+                        ref={inputRef}
+                        type="text"
+                        value={inputValue}
+                        onChange={handleInputChange}
+                        placeholder="Type a message..."
+                        aria-label="Message Foresight"
+                        className="flex-1 bg-slate-800/50 border border-slate-700/50 rounded-l-xl px-4 py-3 text-white focus:outline-none focus:ring-1 focus:ring-[#6A81FB]"
+                        disabled={isBusy}
+                      />
+                      {isBusy ? (
+                        // While an answer is on its way the send button stops it instead
+                        <button
+                          type="button"
+                          onClick={stop}
+                          className="bg-gradient-to-r from-[#FF7270] to-[#E15B73] text-white rounded-r-xl px-4 py-3 hover:opacity-90"
+                          aria-label="Stop answer"
+                        >
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            width="20"
+                            height="20"
+                            viewBox="0 0 24 24"
+                            fill="currentColor"
+                          >
+                            <rect x="6" y="6" width="12" height="12" rx="2"></rect>
+                          </svg>
+                        </button>
+                      ) : (
+                        <button
+                          type="submit"
+                          className="bg-gradient-to-r from-[#6A81FB] to-[#E15B73] text-white rounded-r-xl px-4 py-3 hover:opacity-90"
+                          aria-label="Send message"
+                        >
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            width="20"
+                            height="20"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          >
+                            <line x1="22" y1="2" x2="11" y2="13"></line>
+                            <polygon points="22 2 15 22 11 13 2 9 22 2"></polygon>
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                  </form>
+                </>
+              )}
             </motion.div>
           </motion.div>
         )}
@@ -1,10 +1,28 @@
 "use client"
 
-import { useState } from "react"
+import { Fragment, useRef, useState } from "react"
 import { motion, AnimatePresence } from "framer-motion"
 import { clearVisionHistory, clearConversationHistory } from "../../utils/api"
 import { useAppStore } from "../../store/useAppStore"
 import { useChatStore } from "../../store/useChatStore"
+import { useSessionStore } from "../../store/useSessionStore"
+import { IMAGE_QUALITY_PRESETS, type ImageQualityPreset } from "../../utils/imageEncoding"
+import { isSpeechRecognitionSupported } from "../../utils/speechRecognition"
+import { MAX_SPEECH_RATE, MIN_SPEECH_RATE, SPEECH_LANGUAGES, SPEECH_VOICES } from "../../utils/speechOutput"
+import { FEEDBACK_EVENTS } from "../../utils/feedbackCues"
+import { useDialogFocus } from "../../hooks/useDialogFocus"
+import { useMediaDevices } from "../../hooks/useMediaDevices"
+import { NARRATION_INTERVALS, NARRATION_UNSUPPORTED_MESSAGE } from "../../hooks/useNarration"
+import {
+  MIC_PROCESSING_OPTIONS,
+  buildAudioConstraints,
+  getSupportedMicProcessing,
+  resolveMicProcessing,
+  type MicProcessingOption,
+} from "../../utils/audioInput"
+import { AccountSection } from "./AccountSection"
+import { DeviceSelector } from "./DeviceSelector"
+import { MicLevelMeter } from "./MicLevelMeter"
 
 interface ControlPanelProps {
   isOpen: boolean
@@ -12,9 +30,74 @@ interface ControlPanelProps {
   onStopVideo: () => void
 }
 
+interface ToggleSwitchProps {
+  checked: boolean
+  onChange: (checked: boolean) => void
+  labelledBy: string
+  disabled?: boolean
+}
+
+function ToggleSwitch({ checked, onChange, labelledBy, disabled }: ToggleSwitchProps) {
+  return (
+    <button
+      role="switch"
+      aria-checked={checked}
+      aria-labelledby={labelledBy}
+      disabled={disabled}
+      onClick={() => onChange(!checked)}
+      className={`relative flex-shrink-0 w-11 h-6 rounded-full transition-colors duration-200 disabled:opacity-40 ${
+        checked ? "bg-gradient-to-r from-[#6A81FB] to-[#E15B73]" : "bg-slate-700"
+      }`}
+    >
+      <span
+        className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white transition-transform duration-200 ${
+          checked ? "translate-x-5" : ""
+        }`}
+      ></span>
+    </button>
+  )
+}
+
 export function ControlPanel({ isOpen, onClose, onStopVideo }: ControlPanelProps) {
-  const { userId } = useAppStore()
-  const { clearMessages } = useChatStore()
+  const userId = useSessionStore((state) => state.userId)
+  const dialogRef = useRef<HTMLDivElement>(null)
+  const canVibrate = typeof navigator !== "undefined" && typeof navigator.vibrate === "function"
+  useDialogFocus(isOpen, dialogRef, onClose)
+  const {
+    imageQuality,
+    setImageQuality,
+    handsFreeEnabled,
+    setHandsFreeEnabled,
+    handsFreeSensitivity,
+    setHandsFreeSensitivity,
+    wakeWord,
+    setWakeWord,
+    narrationEnabled,
+    setNarrationEnabled,
+    narrationIntervalSeconds,
+    setNarrationIntervalSeconds,
+    narrationSupported,
+    framingGuidanceEnabled,
+    setFramingGuidanceEnabled,
+    cameraDeviceId,
+    setCameraDeviceId,
+    cameraFacingMode,
+    setCameraFacingMode,
+    micDeviceId,
+    setMicDeviceId,
+    micProcessing,
+    setMicProcessing,
+    isIOSDevice,
+    speechPreferences,
+    setSpeechPreferences,
+    feedbackPreferences,
+    setFeedbackPreference,
+  } = useAppStore()
+  const { devices: cameras } = useMediaDevices("videoinput")
+  const { devices: microphones } = useMediaDevices("audioinput")
+  const activeMicProcessing = resolveMicProcessing(micProcessing, micDeviceId, isIOSDevice)
+  const supportedMicProcessing = getSupportedMicProcessing()
+  const { activeConversationId, clearMessages } = useChatStore()
   const [isClearing, setIsClearing] = useState<string | null>(null)
   const [feedbackMessage, setFeedbackMessage] = useState<string | null>(null)
 
@@ -39,7 +122,8 @@ export function ControlPanel({ isOpen, onClose, onStopVideo }: ControlPanelProps
 
     try {
       setIsClearing("conversation")
-      await clearConversationHistory(userId)
+      // Only the open conversation is reset; the others keep their memory
+      await clearConversationHistory(userId, { sessionId: activeConversationId })
       // Also clear local chat messages
       clearMessages()
       setFeedbackMessage("Conversation memory reset successfully")
@@ -67,13 +151,25 @@ export function ControlPanel({ isOpen, onClose, onStopVideo }: ControlPanelProps
             animate={{ scale: 1, y: 0, opacity: 1 }}
             exit={{ scale: 0.9, y: 20, opacity: 0 }}
             transition={{ type: "spring", damping: 25 }}
-            className="bg-[#1D1D1D] border border-slate-700/50 rounded-2xl p-5 w-[90%] max-w-md mx-auto"
+            className="bg-[#1D1D1D] border border-slate-700/50 rounded-2xl p-5 w-[90%] max-w-md mx-auto max-h-[85vh] overflow-y-auto focus:outline-none"
             onClick={(e) => e.stopPropagation()}
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="control-panel-title"
+            tabIndex={-1}
           >
             <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-bold text-white">Controls</h2>
-              <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+              <h2 id="control-panel-title" className="text-xl font-bold text-white">
+                Controls
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-slate-400 hover:text-white transition-colors"
+                aria-label="Close controls"
+              >
                 <svg
+                  aria-hidden="true"
                   xmlns="http://www.w3.org/2000/svg"
                   width="24"
                   height="24"
@@ -256,6 +352,321 @@ export function ControlPanel({ isOpen, onClose, onStopVideo }: ControlPanelProps
               </button>
             </div>
 
+            <AccountSection />
+
+            <div className="mt-5">
+              <h3 className="text-sm font-medium text-slate-300 mb-2">Camera</h3>
+              <div className="grid grid-cols-2 gap-2 mb-3">
+                {(["environment", "user"] as const).map((facingMode) => {
+                  const isActive = !cameraDeviceId && cameraFacingMode === facingMode
+                  return (
+                    <button
+                      key={facingMode}
+                      onClick={() => {
+                        setCameraDeviceId(null)
+                        setCameraFacingMode(facingMode)
+                      }}
+                      aria-pressed={isActive}
+                      className={`py-2 px-2 rounded-xl text-sm transition-all duration-200 border ${
+                        isActive
+                          ? "bg-gradient-to-r from-[#6A81FB] to-[#E15B73] text-white border-transparent"
+                          : "bg-slate-800/50 text-slate-300 border-slate-700/50 hover:text-white"
+                      }`}
+                    >
+                      {facingMode === "environment" ? "Back" : "Front"}
+                    </button>
+                  )
+                })}
+              </div>
+              <DeviceSelector
+                devices={cameras}
+                selectedDeviceId={cameraDeviceId ?? ""}
+                onChange={(deviceId) => setCameraDeviceId(deviceId || null)}
+                label="Specific camera"
+                defaultOptionLabel="Automatic (use front/back)"
+              />
+            </div>
+
+            <div className="mt-5">
+              <h3 className="text-sm font-medium text-slate-300 mb-2">Microphone</h3>
+              <div className="space-y-3">
+                <DeviceSelector
+                  id="mic-select"
+                  devices={microphones.filter((mic) => mic.deviceId !== "default")}
+                  selectedDeviceId={micDeviceId ?? ""}
+                  onChange={(deviceId) => setMicDeviceId(deviceId || null)}
+                  label="Input device"
+                  deviceName="Microphone"
+                  defaultOptionLabel="System default"
+                />
+
+                {(Object.keys(MIC_PROCESSING_OPTIONS) as MicProcessingOption[]).map((option) => (
+                  <div key={option} className="flex items-center justify-between gap-3">
+                    <div>
+                      <p id={`mic-${option}-label`} className="text-xs text-slate-300">
+                        {MIC_PROCESSING_OPTIONS[option].label}
+                      </p>
+                      <p className="text-[10px] text-slate-500">
+                        {supportedMicProcessing[option]
+                          ? MIC_PROCESSING_OPTIONS[option].description
+                          : "Not supported by this browser"}
+                      </p>
+                    </div>
+                    <ToggleSwitch
+                      checked={activeMicProcessing[option]}
+                      onChange={(checked) => setMicProcessing(micDeviceId, { [option]: checked })}
+                      labelledBy={`mic-${option}-label`}
+                      disabled={!supportedMicProcessing[option]}
+                    />
+                  </div>
+                ))}
+
+                <MicLevelMeter constraints={buildAudioConstraints(micDeviceId, activeMicProcessing)} />
+              </div>
+            </div>
+
+            <div className="mt-5">
+              <h3 className="text-sm font-medium text-slate-300 mb-2">Image Quality</h3>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(IMAGE_QUALITY_PRESETS) as ImageQualityPreset[]).map((preset) => (
+                  <button
+                    key={preset}
+                    onClick={() => setImageQuality(preset)}
+                    aria-pressed={imageQuality === preset}
+                    className={`py-2 px-2 rounded-xl text-sm transition-all duration-200 border ${
+                      imageQuality === preset
+                        ? "bg-gradient-to-r from-[#6A81FB] to-[#E15B73] text-white border-transparent"
+                        : "bg-slate-800/50 text-slate-300 border-slate-700/50 hover:text-white"
+                    }`}
+                  >
+                    {IMAGE_QUALITY_PRESETS[preset].label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-400 mt-2">{IMAGE_QUALITY_PRESETS[imageQuality].description}</p>
+            </div>
+
+            <div className="mt-5">
+              <div className="flex items-center justify-between mb-2">
+                <h3 id="framing-guidance-label" className="text-sm font-medium text-slate-300">
+                  Framing Guidance
+                </h3>
+                <ToggleSwitch
+                  checked={framingGuidanceEnabled}
+                  onChange={setFramingGuidanceEnabled}
+                  labelledBy="framing-guidance-label"
+                />
+              </div>
+              <p className="text-xs text-slate-400">
+                Foresight tells you, with a voice hint and a short buzz, when the view is too dark, blurry or
+                (when reading text) cut off. Frames like these are held back from analysis either way.
+              </p>
+            </div>
+
+            <div className="mt-5">
+              <div className="flex items-center justify-between mb-2">
+                <h3 id="hands-free-label" className="text-sm font-medium text-slate-300">
+                  Hands-free Mode
+                </h3>
+                <ToggleSwitch
+                  checked={handsFreeEnabled}
+                  onChange={setHandsFreeEnabled}
+                  labelledBy="hands-free-label"
+                />
+              </div>
+              <p className="text-xs text-slate-400">
+                Starts recording when you speak and sends your question when you pause. No need to press and hold.
+              </p>
+
+              {handsFreeEnabled && (
+                <div className="mt-3 space-y-3">
+                  <label className="block">
+                    <span className="flex justify-between text-xs text-slate-300 mb-1">
+                      <span>Sensitivity</span>
+                      <span className="text-slate-400">{Math.round(handsFreeSensitivity * 100)}%</span>
+                    </span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={handsFreeSensitivity}
+                      onChange={(e) => setHandsFreeSensitivity(Number(e.target.value))}
+                      className="w-full accent-[#6A81FB]"
+                    />
+                    <span className="flex justify-between text-[10px] text-slate-500">
+                      <span>Loud voices only</span>
+                      <span>Quiet voices</span>
+                    </span>
+                  </label>
+
+                  <label className="block">
+                    <span className="block text-xs text-slate-300 mb-1">Wake word (optional)</span>
+                    <input
+                      type="text"
+                      value={wakeWord}
+                      onChange={(e) => setWakeWord(e.target.value)}
+                      placeholder="e.g. Foresight"
+                      className="w-full bg-slate-800/50 border border-slate-700/50 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-[#6A81FB]"
+                    />
+                    <span className="block text-[10px] text-slate-500 mt-1">
+                      {isSpeechRecognitionSupported()
+                        ? "Only questions that include this word are sent."
+                        : "This browser can't recognize speech locally, so a wake word will block all questions."}
+                    </span>
+                  </label>
+                </div>
+              )}
+            </div>
+
+            <div className="mt-5">
+              <div className="flex items-center justify-between mb-2">
+                <h3 id="narration-label" className="text-sm font-medium text-slate-300">
+                  Narrate Surroundings
+                </h3>
+                <ToggleSwitch
+                  checked={narrationEnabled}
+                  onChange={setNarrationEnabled}
+                  labelledBy="narration-label"
+                  // Stays available to turn off, in case support was detected while it was on
+                  disabled={narrationSupported === false && !narrationEnabled}
+                />
+              </div>
+              <p className="text-xs text-slate-400">
+                {narrationSupported === false
+                  ? NARRATION_UNSUPPORTED_MESSAGE
+                  : "Foresight speaks up when something important changes, like a person, an obstacle or text. " +
+                    "Double-tap the camera view, or press N, to turn it on or off."}
+              </p>
+
+              {narrationEnabled && (
+                <label className="block mt-3">
+                  <span className="block text-xs text-slate-300 mb-1">At most</span>
+                  <select
+                    value={narrationIntervalSeconds}
+                    onChange={(e) => setNarrationIntervalSeconds(Number(e.target.value))}
+                    className="w-full bg-slate-800/50 border border-slate-700/50 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-[#6A81FB]"
+                  >
+                    {NARRATION_INTERVALS.map((seconds) => (
+                      <option key={seconds} value={seconds}>
+                        {seconds < 60 ? `Once every ${seconds} seconds` : "Once a minute"}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="block text-[10px] text-slate-500 mt-1">
+                    Narration waits for your own questions and answers, and the same thing is not announced twice
+                    within a couple of minutes.
+                  </span>
+                </label>
+              )}
+            </div>
+
+            <div className="mt-5">
+              <h3 className="text-sm font-medium text-slate-300 mb-2">Spoken Answers</h3>
+              <div className="space-y-3">
+                <label className="block">
+                  <span className="flex justify-between text-xs text-slate-300 mb-1">
+                    <span>Speed</span>
+                    <span className="text-slate-400">{speechPreferences.rate}x</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={MIN_SPEECH_RATE}
+                    max={MAX_SPEECH_RATE}
+                    step={0.25}
+                    value={speechPreferences.rate}
+                    onChange={(e) => setSpeechPreferences({ rate: Number(e.target.value) })}
+                    className="w-full accent-[#6A81FB]"
+                  />
+                </label>
+
+                <label className="block">
+                  <span className="flex justify-between text-xs text-slate-300 mb-1">
+                    <span>Volume</span>
+                    <span className="text-slate-400">{Math.round(speechPreferences.volume * 100)}%</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={speechPreferences.volume}
+                    onChange={(e) => setSpeechPreferences({ volume: Number(e.target.value) })}
+                    className="w-full accent-[#6A81FB]"
+                  />
+                </label>
+
+                <label className="block">
+                  <span className="block text-xs text-slate-300 mb-1">Voice</span>
+                  <select
+                    value={speechPreferences.voice}
+                    onChange={(e) => setSpeechPreferences({ voice: e.target.value })}
+                    className="w-full bg-slate-800/50 border border-slate-700/50 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-[#6A81FB]"
+                  >
+                    {SPEECH_VOICES.map((voice) => (
+                      <option key={voice.value} value={voice.value}>
+                        {voice.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="block">
+                  <span className="block text-xs text-slate-300 mb-1">Language</span>
+                  <select
+                    value={speechPreferences.language}
+                    onChange={(e) => setSpeechPreferences({ language: e.target.value })}
+                    className="w-full bg-slate-800/50 border border-slate-700/50 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-[#6A81FB]"
+                  >
+                    {SPEECH_LANGUAGES.map((language) => (
+                      <option key={language.value} value={language.value}>
+                        {language.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <p className="text-[10px] text-slate-500">
+                  Speed and volume apply to the greeting and every answer. Voice and language apply to new answers.
+                </p>
+              </div>
+            </div>
+
+            <div className="mt-5">
+              <h3 className="text-sm font-medium text-slate-300 mb-2">Sound and Vibration Cues</h3>
+              <div className="grid grid-cols-[1fr_auto_auto] items-center gap-x-4 gap-y-2">
+                <span></span>
+                <span id="cue-sound-label" className="text-xs text-slate-400 text-center">
+                  Sound
+                </span>
+                <span id="cue-vibration-label" className="text-xs text-slate-400 text-center">
+                  Vibrate
+                </span>
+                {FEEDBACK_EVENTS.map((event) => (
+                  <Fragment key={event.value}>
+                    <span id={`cue-${event.value}-label`} className="text-sm text-white">
+                      {event.label}
+                    </span>
+                    <ToggleSwitch
+                      checked={feedbackPreferences[event.value].sound}
+                      onChange={(sound) => setFeedbackPreference(event.value, { sound })}
+                      labelledBy={`cue-${event.value}-label cue-sound-label`}
+                    />
+                    <ToggleSwitch
+                      checked={feedbackPreferences[event.value].vibration}
+                      onChange={(vibration) => setFeedbackPreference(event.value, { vibration })}
+                      labelledBy={`cue-${event.value}-label cue-vibration-label`}
+                      disabled={!canVibrate}
+                    />
+                  </Fragment>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-500 mt-2">
+                {canVibrate
+                  ? "Short tones and vibrations mark each step, so you can follow along without looking."
+                  : "Short tones mark each step, so you can follow along without looking. This device can't vibrate."}
+              </p>
+            </div>
+
             {feedbackMessage && (
               <motion.div
                 initial={{ opacity: 0, y: 10 }}
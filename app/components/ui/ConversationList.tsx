@@ -0,0 +1,209 @@
+"use client"
+
+import type React from "react"
+import { useMemo, useState } from "react"
+import { clearConversationHistory } from "../../utils/api"
+import { interruptConversation } from "../../hooks/useConversation"
+import { type Conversation, conversationLabel, useChatStore } from "../../store/useChatStore"
+import { useSessionStore } from "../../store/useSessionStore"
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[ConversationList] ${message}`)
+}
+
+interface ConversationListProps {
+  // Called once a conversation has been opened (or started)
+  onOpen: () => void
+}
+
+// Sessions shown in the chat panel: start, name, switch between and delete conversations
+export function ConversationList({ onOpen }: ConversationListProps) {
+  const userId = useSessionStore((state) => state.userId)
+  const {
+    conversations,
+    activeConversationId,
+    messages,
+    createConversation,
+    renameConversation,
+    switchConversation,
+    deleteConversation,
+  } = useChatStore()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [titleInput, setTitleInput] = useState("")
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null)
+
+  // Most recently used first
+  const sortedConversations = useMemo(() => {
+    const lastActivity = (conversation: Conversation) => {
+      const conversationMessages = messages.filter((msg) => msg.conversationId === conversation.id)
+      const lastMessage = conversationMessages[conversationMessages.length - 1]
+      return lastMessage ? new Date(lastMessage.timestamp).getTime() : conversation.createdAt
+    }
+    return [...conversations].sort((a, b) => lastActivity(b) - lastActivity(a))
+  }, [conversations, messages])
+
+  const handleNew = () => {
+    createConversation()
+    onOpen()
+  }
+
+  const handleOpen = (id: string) => {
+    switchConversation(id)
+    onOpen()
+  }
+
+  const startRename = (conversation: Conversation) => {
+    setConfirmingDeleteId(null)
+    setEditingId(conversation.id)
+    setTitleInput(conversationLabel(conversation, messages))
+  }
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (editingId) renameConversation(editingId, titleInput)
+    setEditingId(null)
+  }
+
+  const handleDelete = async (id: string) => {
+    setConfirmingDeleteId(null)
+    // An answer for the conversation being deleted shouldn't keep playing
+    if (id === activeConversationId) interruptConversation()
+    deleteConversation(id)
+
+    // The backend memory goes too; the local transcript is already gone if this fails
+    if (!userId) return
+    try {
+      await clearConversationHistory(userId, { sessionId: id })
+    } catch (err) {
+      logger(`Could not clear backend memory for ${id}: ${err}`)
+    }
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-2">
+      <button
+        onClick={handleNew}
+        className="w-full py-2 px-4 rounded-xl text-sm text-white bg-gradient-to-r from-[#6A81FB] to-[#E15B73] hover:opacity-90 transition-opacity"
+      >
+        New conversation
+      </button>
+
+      {sortedConversations.map((conversation) => {
+        const isActive = conversation.id === activeConversationId
+        const messageCount = messages.filter((msg) => msg.conversationId === conversation.id).length
+
+        if (editingId === conversation.id) {
+          return (
+            <form key={conversation.id} onSubmit={handleRename} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={titleInput}
+                onChange={(e) => setTitleInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key !== "Escape") return
+                  // Cancel the rename without closing the chat
+                  e.preventDefault()
+                  setEditingId(null)
+                }}
+                maxLength={60}
+                autoFocus
+                aria-label="Conversation name"
+                className="flex-1 bg-slate-800/50 border border-slate-700/50 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-[#6A81FB]"
+              />
+              <button type="submit" className="text-xs text-[#6A81FB] hover:text-white transition-colors">
+                Save
+              </button>
+            </form>
+          )
+        }
+
+        return (
+          <div
+            key={conversation.id}
+            className={`flex items-center rounded-xl border px-3 py-2 ${
+              isActive ? "border-[#6A81FB]/50 bg-[#6A81FB]/10" : "border-slate-700/50 bg-slate-800/30"
+            }`}
+          >
+            {confirmingDeleteId === conversation.id ? (
+              <div className="flex-1 flex items-center justify-between">
+                <span className="text-sm text-white">Delete this conversation?</span>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => handleDelete(conversation.id)}
+                    className="text-xs text-[#FF7270] hover:text-white transition-colors"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setConfirmingDeleteId(null)}
+                    className="text-xs text-slate-400 hover:text-white transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <button
+                  onClick={() => handleOpen(conversation.id)}
+                  className="flex-1 min-w-0 text-left"
+                  aria-current={isActive ? "true" : undefined}
+                >
+                  <p className="text-sm text-white truncate">{conversationLabel(conversation, messages)}</p>
+                  <p className="text-[10px] text-slate-500">
+                    {messageCount === 1 ? "1 message" : `${messageCount} messages`}
+                  </p>
+                </button>
+                <button
+                  onClick={() => startRename(conversation)}
+                  className="text-slate-400 hover:text-white transition-colors p-2"
+                  aria-label="Rename conversation"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="14"
+                    height="14"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M12 20h9"></path>
+                    <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>
+                  </svg>
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingId(null)
+                    setConfirmingDeleteId(conversation.id)
+                  }}
+                  className="text-slate-400 hover:text-[#FF7270] transition-colors p-2"
+                  aria-label="Delete conversation"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="14"
+                    height="14"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M3 6h18"></path>
+                    <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"></path>
+                    <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"></path>
+                  </svg>
+                </button>
+              </>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
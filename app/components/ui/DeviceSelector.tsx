@@ -4,28 +4,44 @@ interface DeviceSelectorProps {
   devices: MediaDeviceInfo[]
   selectedDeviceId: string
   onChange: (deviceId: string) => void
+  id?: string
+  label?: string
+  // Used for fallback names when the browser hides device labels, e.g. "Camera 2"
+  deviceName?: string
+  // Label for the "" option that lets the browser pick; omitted when not provided
+  defaultOptionLabel?: string
 }
 
-export function DeviceSelector({ devices, selectedDeviceId, onChange }: DeviceSelectorProps) {
+export function DeviceSelector({
+  devices,
+  selectedDeviceId,
+  onChange,
+  id = "camera-select",
+  label = "Select Camera:",
+  deviceName = "Camera",
+  defaultOptionLabel,
+}: DeviceSelectorProps) {
   return (
-    <div className="mb-4">
-      <label htmlFor="camera-select" className="block text-sm font-medium mb-1">
-        Select Camera:
+    <div>
+      <label htmlFor={id} className="block text-xs text-slate-300 mb-1">
+        {label}
       </label>
       <select
-        id="camera-select"
+        id={id}
         value={selectedDeviceId}
         onChange={(e) => onChange(e.target.value)}
-        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        className="w-full bg-slate-800/50 border border-slate-700/50 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-1 focus:ring-[#6A81FB]"
       >
-        {devices.length === 0 && <option value="">No cameras found</option>}
-        {devices.map((device) => (
-          <option key={device.deviceId} value={device.deviceId}>
-            {device.label || `Camera ${device.deviceId.substring(0, 7)}...`}
+        {defaultOptionLabel !== undefined && <option value="">{defaultOptionLabel}</option>}
+        {devices.length === 0 && defaultOptionLabel === undefined && (
+          <option value="">No {deviceName.toLowerCase()}s found</option>
+        )}
+        {devices.map((device, index) => (
+          <option key={device.deviceId || index} value={device.deviceId}>
+            {device.label || `${deviceName} ${index + 1}`}
           </option>
         ))}
       </select>
     </div>
   )
 }
-
@@ -0,0 +1,78 @@
+"use client"
+
+import { useEffect, useRef, type RefObject } from "react"
+import { motion } from "framer-motion"
+import type { HandsFreeStatus } from "../../hooks/useHandsFree"
+
+interface HandsFreeIndicatorProps {
+  status: HandsFreeStatus
+  levelRef: RefObject<number>
+  wakeWord?: string
+}
+
+export function HandsFreeIndicator({ status, levelRef, wakeWord }: HandsFreeIndicatorProps) {
+  const meterRef = useRef<HTMLDivElement>(null)
+
+  // Animate the level meter directly so the camera view doesn't re-render on every tick
+  useEffect(() => {
+    if (status !== "waiting" && status !== "capturing") return
+
+    let frame = 0
+    const draw = () => {
+      if (meterRef.current) {
+        meterRef.current.style.width = `${Math.round((levelRef.current ?? 0) * 100)}%`
+      }
+      frame = requestAnimationFrame(draw)
+    }
+    frame = requestAnimationFrame(draw)
+    return () => cancelAnimationFrame(frame)
+  }, [status, levelRef])
+
+  if (status === "off") return null
+
+  const label =
+    status === "capturing"
+      ? "Hearing you..."
+      : status === "waiting"
+        ? wakeWord
+          ? `Say "${wakeWord}" to ask`
+          : "Hands-free: listening"
+        : "Hands-free: waiting for microphone"
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="absolute top-4 left-4 bg-black/50 backdrop-blur-sm px-3 py-1.5 rounded-full flex items-center z-10"
+      role="status"
+      aria-live="polite"
+    >
+      <span className="relative flex h-2.5 w-2.5 mr-2">
+        {status !== "unavailable" && (
+          <span
+            className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${
+              status === "capturing" ? "bg-[#FF7270]" : "bg-[#6A81FB]"
+            }`}
+          ></span>
+        )}
+        <span
+          className={`relative inline-flex rounded-full h-2.5 w-2.5 ${
+            status === "capturing" ? "bg-[#FF7270]" : status === "waiting" ? "bg-[#6A81FB]" : "bg-slate-500"
+          }`}
+        ></span>
+      </span>
+      <span className="text-white text-xs font-medium">{label}</span>
+      {status !== "unavailable" && (
+        <div className="ml-2 w-10 h-1 bg-slate-700 rounded-full overflow-hidden" aria-hidden="true">
+          <div
+            ref={meterRef}
+            className={`h-full transition-[width] duration-75 ${
+              status === "capturing" ? "bg-[#FF7270]" : "bg-[#6A81FB]"
+            }`}
+            style={{ width: "0%" }}
+          ></div>
+        </div>
+      )}
+    </motion.div>
+  )
+}
@@ -0,0 +1,29 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useAppStore } from "../../store/useAppStore"
+
+// Screen reader announcements for the status line and errors, which otherwise only change visually.
+// Mount once; the regions are visually hidden and must stay mounted for changes to be announced.
+export function LiveAnnouncer() {
+  const statusMessage = useAppStore((state) => state.statusMessage)
+  const statusAnnounced = useAppStore((state) => state.statusAnnounced)
+  const error = useAppStore((state) => state.error)
+  const [announcement, setAnnouncement] = useState(statusMessage)
+
+  // Routine updates (e.g. one per uploaded frame) would drown out everything else
+  useEffect(() => {
+    if (statusAnnounced) setAnnouncement(statusMessage)
+  }, [statusMessage, statusAnnounced])
+
+  return (
+    <>
+      <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+        {announcement}
+      </div>
+      <div role="alert" aria-live="assertive" aria-atomic="true" className="sr-only">
+        {error ?? ""}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { readMessageAloud, replayMessageAudio } from "../../hooks/useConversation"
+import { useMessageAudioUrl } from "../../hooks/useMessageAudio"
+import { useAppStore } from "../../store/useAppStore"
+import type { ChatMessage } from "../../store/useChatStore"
+import { nextPlaybackRate, usePlaybackStore } from "../../store/usePlaybackStore"
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs < 10 ? "0" : ""}${secs}`
+}
+
+// Inline audio for one chat message: replay its stored audio, or read it aloud when it has none.
+// Once the message is loaded in the player these controls drive the same element as the AudioPlayer.
+export function MessagePlayback({ message }: { message: ChatMessage }) {
+  const storedUrl = useMessageAudioUrl(message.id, message.hasAudio ?? false)
+  const isLoaded = usePlaybackStore((state) => state.sourceMessageId === message.id)
+  const isPlaying = usePlaybackStore((state) => state.sourceMessageId === message.id && state.isPlaying)
+  const currentTime = usePlaybackStore((state) => (state.sourceMessageId === message.id ? state.currentTime : 0))
+  const duration = usePlaybackStore((state) => (state.sourceMessageId === message.id ? state.duration : 0))
+  const playbackRate = useAppStore((state) => state.speechPreferences.rate)
+  const [isPreparing, setIsPreparing] = useState(false)
+
+  // A question still being sent or an answer still being voiced has nothing to play yet
+  if (!isLoaded && (message.status === "pending" || message.status === "streaming")) return null
+
+  const accentClass = message.sender === "user" ? "text-[#6A81FB]" : "text-[#E15B73]"
+
+  const handlePlay = async () => {
+    if (isLoaded) {
+      usePlaybackStore.getState().togglePlayback()
+    } else if (storedUrl) {
+      await replayMessageAudio(message.id)
+    } else {
+      setIsPreparing(true)
+      try {
+        // Text read from the camera is still heard when the backend can't voice it
+        await readMessageAloud(message.id, { deviceFallback: message.source === "ocr" })
+      } finally {
+        setIsPreparing(false)
+      }
+    }
+  }
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    usePlaybackStore.getState().seek(Number.parseFloat(e.target.value))
+  }
+
+  // Changes the saved listening speed, not just this message's
+  const cycleRate = () => {
+    useAppStore.getState().setSpeechPreferences({ rate: nextPlaybackRate(playbackRate) })
+  }
+
+  if (!isLoaded) {
+    const label = storedUrl ? (message.sender === "user" ? "Play recording" : "Play answer") : "Read aloud"
+    return (
+      <button
+        type="button"
+        onClick={handlePlay}
+        disabled={isPreparing}
+        className={`flex items-center mt-2 text-xs hover:opacity-80 transition-opacity disabled:opacity-50 ${accentClass}`}
+      >
+        {storedUrl ? (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" viewBox="0 0 24 24" fill="currentColor">
+            <polygon points="6 3 20 12 6 21 6 3"></polygon>
+          </svg>
+        ) : (
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-3 w-3 mr-1"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
+            <path d="M15.54 8.46a5 5 0 0 1 0 7.07"></path>
+            <path d="M19.07 4.93a10 10 0 0 1 0 14.14"></path>
+          </svg>
+        )}
+        {isPreparing ? "Preparing voice..." : label}
+      </button>
+    )
+  }
+
+  return (
+    <div className={`flex items-center mt-2 space-x-2 text-xs ${accentClass}`}>
+      <button
+        type="button"
+        onClick={handlePlay}
+        className="flex-shrink-0 hover:opacity-80 transition-opacity"
+        aria-label={isPlaying ? "Pause" : "Play"}
+      >
+        {isPlaying ? (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="currentColor">
+            <rect x="6" y="4" width="4" height="16"></rect>
+            <rect x="14" y="4" width="4" height="16"></rect>
+          </svg>
+        ) : (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="currentColor">
+            <polygon points="6 3 20 12 6 21 6 3"></polygon>
+          </svg>
+        )}
+      </button>
+      <input
+        type="range"
+        min="0"
+        max={duration || 0}
+        step="0.1"
+        value={Math.min(currentTime, duration)}
+        onChange={handleSeek}
+        // Streamed audio can't be scrubbed until its length is known
+        disabled={duration === 0}
+        className="flex-1 min-w-0 h-1 accent-current cursor-pointer disabled:cursor-default"
+        aria-label="Seek"
+      />
+      <span className="flex-shrink-0 text-slate-400 tabular-nums">
+        {formatTime(currentTime)}
+        {duration > 0 && ` / ${formatTime(duration)}`}
+      </span>
+      <button
+        type="button"
+        onClick={cycleRate}
+        className="flex-shrink-0 w-9 text-center rounded-md border border-current/30 hover:opacity-80 transition-opacity"
+        aria-label={`Playback speed ${playbackRate}x`}
+      >
+        {playbackRate}x
+      </button>
+    </div>
+  )
+}
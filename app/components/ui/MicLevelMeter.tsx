@@ -0,0 +1,88 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { createAudioContext } from "../../utils/voiceActivity"
+
+interface MicLevelMeterProps {
+  // Audio constraints to test with (selected device and processing settings)
+  constraints: MediaTrackConstraints
+}
+
+// Live input level for checking the microphone before asking a question
+export function MicLevelMeter({ constraints }: MicLevelMeterProps) {
+  const barRef = useRef<HTMLDivElement>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Re-open the test stream only when the constraints actually change
+  const constraintsKey = JSON.stringify(constraints)
+
+  useEffect(() => {
+    let cancelled = false
+    let stream: MediaStream | null = null
+    let audioContext: AudioContext | null = null
+    let frame = 0
+
+    setError(null)
+    navigator.mediaDevices
+      .getUserMedia({ audio: JSON.parse(constraintsKey) as MediaTrackConstraints })
+      .then((micStream) => {
+        if (cancelled) {
+          micStream.getTracks().forEach((track) => track.stop())
+          return
+        }
+        stream = micStream
+        audioContext = createAudioContext()
+        if (!audioContext) {
+          setError("Level meter is not supported in this browser")
+          return
+        }
+
+        const analyser = audioContext.createAnalyser()
+        analyser.fftSize = 512
+        audioContext.createMediaStreamSource(micStream).connect(analyser)
+        const samples = new Float32Array(analyser.fftSize)
+
+        const draw = () => {
+          analyser.getFloatTimeDomainData(samples)
+          let peak = 0
+          for (let i = 0; i < samples.length; i++) {
+            peak = Math.max(peak, Math.abs(samples[i]))
+          }
+          if (barRef.current) {
+            barRef.current.style.width = `${Math.min(100, Math.round(peak * 100))}%`
+          }
+          frame = requestAnimationFrame(draw)
+        }
+        frame = requestAnimationFrame(draw)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`Could not open microphone: ${err.message}`)
+      })
+
+    return () => {
+      cancelled = true
+      cancelAnimationFrame(frame)
+      stream?.getTracks().forEach((track) => track.stop())
+      audioContext?.close().catch(() => {})
+    }
+  }, [constraintsKey])
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-slate-300 mb-1">
+        <span>Input level</span>
+        <span className="text-slate-500">Speak to test</span>
+      </div>
+      <div
+        className="h-2 bg-slate-800 rounded-full overflow-hidden border border-slate-700/50"
+        aria-hidden="true"
+      >
+        <div
+          ref={barRef}
+          className="h-full bg-gradient-to-r from-[#6A81FB] to-[#E15B73] transition-[width] duration-75"
+          style={{ width: "0%" }}
+        ></div>
+      </div>
+      {error && <p className="text-xs text-[#FF7270] mt-1">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import { motion, AnimatePresence } from "framer-motion"
+
+interface StopAnswerButtonProps {
+  visible: boolean
+  onStop: () => void
+}
+
+// Halts the answer being fetched or spoken; shown over the camera view while there is something to stop
+export function StopAnswerButton({ visible, onStop }: StopAnswerButtonProps) {
+  return (
+    <AnimatePresence>
+      {visible && (
+        <motion.button
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 10 }}
+          onClick={onStop}
+          // Keep the tap from also starting a press-and-hold recording underneath
+          onMouseDown={(e) => e.stopPropagation()}
+          onTouchStart={(e) => e.stopPropagation()}
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 bg-black/60 backdrop-blur-sm border border-slate-700/50 text-white px-4 py-2 rounded-full flex items-center text-sm hover:bg-black/80 transition-colors"
+          aria-label="Stop answer"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="currentColor"
+            className="mr-2 text-[#FF7270]"
+          >
+            <rect x="5" y="5" width="14" height="14" rx="2"></rect>
+          </svg>
+          Stop
+        </motion.button>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[UpdatePrompt] ${message}`)
+}
+
+// Offers to switch to a newly installed service worker (the new worker waits until the user agrees)
+export function UpdatePrompt() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null)
+  const [dismissed, setDismissed] = useState(false)
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return
+
+    let registration: ServiceWorkerRegistration | null = null
+    let reloading = false
+
+    const trackInstalling = (worker: ServiceWorker | null) => {
+      worker?.addEventListener("statechange", () => {
+        // Only an update when a previous version is still in control
+        if (worker.state === "installed" && navigator.serviceWorker.controller) {
+          logger("New version installed and waiting")
+          setWaitingWorker(worker)
+          setDismissed(false)
+        }
+      })
+    }
+    const handleUpdateFound = () => trackInstalling(registration?.installing ?? null)
+
+    // Home screen apps can stay open for days; look for updates whenever the app comes back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        registration?.update().catch(() => {})
+      }
+    }
+
+    const handleControllerChange = () => {
+      if (reloading) return
+      reloading = true
+      window.location.reload()
+    }
+
+    navigator.serviceWorker.ready.then((readyRegistration) => {
+      registration = readyRegistration
+      if (readyRegistration.waiting && navigator.serviceWorker.controller) {
+        setWaitingWorker(readyRegistration.waiting)
+      }
+      readyRegistration.addEventListener("updatefound", handleUpdateFound)
+    })
+    navigator.serviceWorker.addEventListener("controllerchange", handleControllerChange)
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+
+    return () => {
+      registration?.removeEventListener("updatefound", handleUpdateFound)
+      navigator.serviceWorker.removeEventListener("controllerchange", handleControllerChange)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [])
+
+  const handleUpdate = () => {
+    if (!waitingWorker) return
+    logger("Activating new version")
+    // Workbox service workers activate on this message; the page reloads on controllerchange
+    waitingWorker.postMessage({ type: "SKIP_WAITING" })
+  }
+
+  return (
+    <AnimatePresence>
+      {waitingWorker && !dismissed && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="fixed bottom-4 left-4 right-4 sm:left-auto sm:w-96 z-50 bg-[#1D1D1D] border border-slate-700/50 rounded-2xl p-4 shadow-xl"
+          role="alertdialog"
+          aria-label="Update available"
+          // Keep taps on the prompt from starting a press-and-hold recording
+          onMouseDown={(e) => e.stopPropagation()}
+          onTouchStart={(e) => e.stopPropagation()}
+        >
+          <p className="text-sm text-white mb-3">A new version of Foresight is available.</p>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setDismissed(true)}
+              className="py-2 px-4 rounded-xl text-sm text-slate-300 hover:text-white transition-colors"
+            >
+              Later
+            </button>
+            <button
+              onClick={handleUpdate}
+              className="py-2 px-4 rounded-xl text-sm text-white bg-gradient-to-r from-[#6A81FB] to-[#E15B73] hover:opacity-90 transition-opacity"
+            >
+              Update now
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
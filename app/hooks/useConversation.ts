@@ -0,0 +1,484 @@
+"use client"
+
+// Shared question → answer pipeline used by both the voice (CameraCapture) and text (ChatInterface) entry points.
+// Records both sides of the turn in the chat store and hands the spoken answer to the AudioPlayer.
+import { useCallback } from "react"
+import {
+  type SpeechRequestOptions,
+  generateSpeech,
+  isRetryableApiError,
+  sendAudioPrompt,
+  sendTextPrompt,
+} from "../utils/api"
+import { isIndexedDbAvailable } from "../utils/idb"
+import { acquireAudioUrl, loadMessageAudio, releaseAudioUrl, saveMessageAudio } from "../utils/messageAudio"
+import { nextRetryDelay, queueQuestion, scheduleOutbox } from "../utils/outbox"
+import { cancelDeviceSpeech, isDeviceSpeechSupported, speakOnDevice } from "../utils/speechOutput"
+import { createSpeechSource, type SpeechSource } from "../utils/speechPlayback"
+import { useAppStore } from "../store/useAppStore"
+import { usePlaybackStore } from "../store/usePlaybackStore"
+import { type ChatMessage, createChatId, useChatStore } from "../store/useChatStore"
+import { type ConversationPhase, useConversationStore } from "../store/useConversationStore"
+import { useSessionStore } from "../store/useSessionStore"
+
+export type ConversationPrompt =
+  | { kind: "text"; text: string }
+  // localTranscript resolves with the browser's own recognition of the recording, if any
+  | { kind: "audio"; audio: Blob; localTranscript?: Promise<string | null> }
+
+// Chat text of a voice question until a transcript is available
+const VOICE_QUESTION_PLACEHOLDER = "Voice question"
+
+// Delay between clearing and setting the audio URL so the player fully resets
+const AUDIO_RESET_DELAY_MS = 100
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[useConversation] ${message}`)
+}
+
+// Playback waiting for the player reset delay; cleared when the user stops
+let pendingPlayback: ReturnType<typeof setTimeout> | null = null
+// Message whose stored audio the player holds an object URL for
+let playerAudioMessageId: string | null = null
+// Object URL of buffered speech the player holds (streamed URLs revoke themselves)
+let playerSpeechUrl: string | null = null
+
+function releasePlayerAudio() {
+  if (playerSpeechUrl) {
+    URL.revokeObjectURL(playerSpeechUrl)
+    playerSpeechUrl = null
+  }
+  if (!playerAudioMessageId) return
+  releaseAudioUrl(playerAudioMessageId)
+  playerAudioMessageId = null
+}
+
+// Hand a URL to the AudioPlayer. The URL is cleared first so the player fully resets even when
+// replaying the same source; beforePlay can veto playback once the delay has passed.
+// sourceMessageId tells the chat which message the player is playing.
+function playThroughPlayer(url: string, sourceMessageId: string | null, beforePlay?: () => boolean) {
+  releasePlayerAudio()
+  useAppStore.getState().setAudioURL("")
+  usePlaybackStore.getState().setSourceMessageId(null)
+  if (pendingPlayback) clearTimeout(pendingPlayback)
+  pendingPlayback = setTimeout(() => {
+    pendingPlayback = null
+    if (beforePlay && !beforePlay()) {
+      releasePlayerAudio()
+      return
+    }
+    usePlaybackStore.getState().setSourceMessageId(sourceMessageId)
+    useAppStore.getState().setAudioURL(url)
+  }, AUDIO_RESET_DELAY_MS)
+}
+
+// Play generated speech, keeping a buffered source's URL so it is revoked when the player moves on
+function playSpeechThroughPlayer(source: SpeechSource, sourceMessageId: string, beforePlay?: () => boolean) {
+  playThroughPlayer(source.url, sourceMessageId, beforePlay)
+  if (!source.streaming) playerSpeechUrl = source.url
+}
+
+// Silence the current answer and abort the turn in flight; its late responses are discarded.
+// Used for barge-in (a new question) as well as an explicit stop.
+export function interruptConversation() {
+  if (pendingPlayback) {
+    clearTimeout(pendingPlayback)
+    pendingPlayback = null
+  }
+  useConversationStore.getState().cancelTurn()
+  // Clearing the URL makes the AudioPlayer pause and detach the current answer
+  if (useAppStore.getState().audioURL) {
+    useAppStore.getState().setAudioURL("")
+  }
+  usePlaybackStore.getState().setSourceMessageId(null)
+  releasePlayerAudio()
+  cancelDeviceSpeech()
+}
+
+// Explicit stop from the stop button or gesture
+export function stopConversation() {
+  logger("Stopped by user")
+  interruptConversation()
+  useAppStore.getState().setStatusMessage("Stopped. Press and hold to ask another question.")
+}
+
+// Replay audio attached to a chat message (a recorded question or a spoken answer)
+export async function replayMessageAudio(messageId: string) {
+  const url = await acquireAudioUrl(messageId)
+  if (!url) {
+    releaseAudioUrl(messageId)
+    useAppStore.getState().setError("This audio is no longer stored on this device.")
+    return
+  }
+  logger(`Replaying audio of ${messageId}`)
+  playThroughPlayer(url, messageId)
+  // The player keeps the URL alive until it moves on, even if the chat closes
+  playerAudioMessageId = messageId
+}
+
+// The preferred voice and language for generated speech
+export function speechOptions(): SpeechRequestOptions {
+  const { voice, language } = useAppStore.getState().speechPreferences
+  return { voice, language }
+}
+
+// Speak a message with the device's own voice; the answer player's state stands in so hands-free mode
+// doesn't mistake it for the user speaking
+function readOnDevice(message: ChatMessage) {
+  logger(`Reading message ${message.id} aloud on the device`)
+  const app = useAppStore.getState()
+  app.setIsAnswerPlaying(true)
+  speakOnDevice(message.text, app.speechPreferences)
+    .catch((deviceError: unknown) => {
+      const deviceErrorMsg = deviceError instanceof Error ? deviceError.message : "Unknown error"
+      useAppStore.getState().setError(`Couldn't read the message aloud: ${deviceErrorMsg}`)
+      logger(`Device speech failed: ${deviceErrorMsg}`)
+    })
+    .finally(() => useAppStore.getState().setIsAnswerPlaying(false))
+}
+
+// Speak a message that has no audio of its own. Answers keep the speech for replay; questions don't,
+// since a question's stored audio is what a retry resends. With deviceFallback, text that must be heard
+// even offline (e.g. read from the camera) is spoken by the device when generated speech isn't available.
+export async function readMessageAloud(
+  messageId: string,
+  { deviceFallback = false }: { deviceFallback?: boolean } = {},
+): Promise<void> {
+  const message = useChatStore.getState().messages.find((msg) => msg.id === messageId)
+  const userId = useSessionStore.getState().userId
+  if (!message) return
+  const canUseDevice = deviceFallback && isDeviceSpeechSupported()
+  if (!userId) {
+    if (canUseDevice) readOnDevice(message)
+    return
+  }
+
+  try {
+    logger(`Reading message ${messageId} aloud`)
+    const speechSource = await createSpeechSource(await generateSpeech(userId, message.text, speechOptions()))
+    if (message.sender === "ai") {
+      speechSource.completed
+        .then(async (speechBlob) => {
+          const hasAudio = await storeMessageAudio(messageId, speechBlob)
+          useChatStore.getState().updateMessage(messageId, { hasAudio, status: "done" })
+        })
+        .catch((streamError) => logger(`Speech stream error: ${streamError}`))
+    }
+    playSpeechThroughPlayer(speechSource, messageId)
+  } catch (speechError: unknown) {
+    const speechErrorMsg = speechError instanceof Error ? speechError.message : "Unknown error"
+    logger(`Read aloud failed: ${speechErrorMsg}`)
+    if (canUseDevice) {
+      readOnDevice(message)
+      return
+    }
+    useAppStore.getState().setError(`Couldn't read the message aloud: ${speechErrorMsg}`)
+  }
+}
+
+// Keep audio for replay; false when it couldn't be stored (no IndexedDB, too large, or a storage error)
+async function storeMessageAudio(messageId: string, audio: Blob): Promise<boolean> {
+  if (!isIndexedDbAvailable()) return false
+  try {
+    return await saveMessageAudio(messageId, audio)
+  } catch (storeError) {
+    logger(`Could not store audio for ${messageId}: ${storeError}`)
+    return false
+  }
+}
+
+// Put a question in the outbox so it is sent once the backend is reachable again
+async function queuePrompt(userId: string, userMessageId: string, prompt: ConversationPrompt): Promise<void> {
+  const app = useAppStore.getState()
+  const chat = useChatStore.getState()
+  try {
+    await queueQuestion(
+      userId,
+      userMessageId,
+      prompt.kind === "text" ? { kind: "text", text: prompt.text } : { kind: "audio", audio: prompt.audio },
+    )
+    chat.updateMessage(userMessageId, { delivery: "queued" })
+    app.setStatusMessage("Can't reach Foresight right now. Your question is saved and will be sent automatically.")
+    // Going back online triggers a retry by itself; a server error needs a timed one
+    if (typeof navigator === "undefined" || navigator.onLine) {
+      scheduleOutbox(nextRetryDelay(1))
+    }
+    logger(`Queued ${prompt.kind} prompt ${userMessageId}`)
+  } catch (queueError) {
+    chat.updateMessage(userMessageId, { delivery: "failed", status: "error" })
+    app.setError("Can't reach Foresight and the question couldn't be saved. Please ask again later.")
+    logger(`Could not queue prompt: ${queueError}`)
+  }
+}
+
+// Send a prompt whose user message is already in the chat, then record and speak the answer.
+// With throwOnSendError the send failure is rethrown for the caller (the outbox) to handle;
+// otherwise retryable failures are queued and the rest are reported in the chat.
+async function answerPrompt(
+  userId: string,
+  userMessageId: string,
+  prompt: ConversationPrompt,
+  { throwOnSendError = false }: { throwOnSendError?: boolean } = {},
+): Promise<void> {
+  const app = useAppStore.getState()
+  const chat = useChatStore.getState()
+  const conversation = useConversationStore.getState()
+
+  // The question may have been deleted (with its conversation) while it waited in the outbox
+  const conversationId = chat.messages.find((msg) => msg.id === userMessageId)?.conversationId
+  if (!conversationId) {
+    logger(`Skipping prompt ${userMessageId}, its message is gone`)
+    return
+  }
+
+  const turnId = conversation.beginTurn()
+  const isStale = () => !useConversationStore.getState().isActiveTurn(turnId)
+  const signal = conversation.getTurnSignal(turnId)
+
+  // 1. Send the prompt and wait for the answer text
+  let answerText: string
+  try {
+    app.setStatusMessage(prompt.kind === "text" ? "Processing your message..." : "Processing your question...")
+    logger(`Sending ${prompt.kind} prompt (${turnId})`)
+
+    const response =
+      prompt.kind === "text"
+        ? await sendTextPrompt(userId, prompt.text, { signal, sessionId: conversationId })
+        : await sendAudioPrompt(userId, prompt.audio, { signal, sessionId: conversationId })
+
+    // The backend transcript wins over a local one
+    if (response.transcript?.trim()) {
+      chat.updateMessage(userMessageId, { text: response.transcript.trim(), transcriptSource: "backend" })
+    }
+
+    if (isStale()) {
+      logger(`Discarding stale answer for ${turnId}`)
+      chat.updateMessage(userMessageId, { status: "error" })
+      return
+    }
+
+    answerText = response.text || "I didn't understand that. Could you try again?"
+  } catch (error: unknown) {
+    if (throwOnSendError) {
+      conversation.setPhase(turnId, "error")
+      throw error
+    }
+    if (isStale()) {
+      chat.updateMessage(userMessageId, { status: "error" })
+      return
+    }
+
+    if (isRetryableApiError(error)) {
+      conversation.setPhase(turnId, "idle")
+      await queuePrompt(userId, userMessageId, prompt)
+      return
+    }
+
+    const errorMsg = error instanceof Error ? error.message : "Unknown error"
+    conversation.setPhase(turnId, "error")
+    chat.updateMessage(userMessageId, { status: "error" })
+    app.setError(`Failed to send ${prompt.kind === "text" ? "message" : "audio"}: ${errorMsg}`)
+    app.setStatusMessage(prompt.kind === "text" ? "Message failed" : "Audio upload failed")
+    logger(`Prompt failed: ${errorMsg}`)
+    return
+  }
+
+  chat.updateMessage(userMessageId, { status: "done" })
+  const aiMessageId = createChatId()
+  chat.addMessage({
+    id: aiMessageId,
+    conversationId,
+    text: answerText,
+    sender: "ai",
+    timestamp: new Date(),
+    status: "streaming",
+  })
+  await speakAnswer(userId, turnId, aiMessageId, answerText)
+}
+
+// Turn an answer into speech and play it, attaching the audio to its chat message for replay
+async function speakAnswer(userId: string, turnId: string, aiMessageId: string, answerText: string): Promise<void> {
+  const app = useAppStore.getState()
+  const conversation = useConversationStore.getState()
+  const isStale = () => !useConversationStore.getState().isActiveTurn(turnId)
+  const markFailed = () => useChatStore.getState().updateMessage(aiMessageId, { status: "error" })
+
+  try {
+    conversation.setPhase(turnId, "synthesizing")
+    app.setStatusMessage("Generating response...")
+
+    const speechResult = await generateSpeech(userId, answerText, {
+      ...speechOptions(),
+      signal: conversation.getTurnSignal(turnId),
+    })
+    if (isStale()) {
+      logger(`Discarding stale speech for ${turnId}`)
+      markFailed()
+      return
+    }
+
+    // Start playback as soon as the first chunk arrives when streaming is possible
+    const speechSource = await createSpeechSource(speechResult)
+
+    // A MediaSource URL can only be attached once, so the complete audio is stored for replay
+    speechSource.completed
+      .then(async (speechBlob) => {
+        const hasAudio = await storeMessageAudio(aiMessageId, speechBlob)
+        useChatStore.getState().updateMessage(aiMessageId, { hasAudio, status: "done" })
+      })
+      .catch((streamError) => {
+        markFailed()
+        logger(`Speech stream error: ${streamError}`)
+      })
+
+    playSpeechThroughPlayer(speechSource, aiMessageId, () => {
+      if (isStale()) return false
+      useAppStore.getState().setStatusMessage("Foresight response ready")
+      useConversationStore.getState().setPhase(turnId, "ready")
+      logger(`Speech playback source ready (${speechSource.streaming ? "streaming" : "buffered"})`)
+      return true
+    })
+  } catch (speechError: unknown) {
+    markFailed()
+    if (isStale()) return
+    const speechErrorMsg = speechError instanceof Error ? speechError.message : "Unknown error"
+    conversation.setPhase(turnId, "error")
+    app.setError(`Speech generation failed: ${speechErrorMsg}`)
+    app.setStatusMessage("Could not generate speech from response")
+    logger(`Speech generation failed: ${speechErrorMsg}`)
+  }
+}
+
+// Answer a question now, or queue it when the browser already knows it's offline
+async function submitPrompt(userId: string, userMessageId: string, prompt: ConversationPrompt): Promise<void> {
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    await queuePrompt(userId, userMessageId, prompt)
+    return
+  }
+  await answerPrompt(userId, userMessageId, prompt)
+}
+
+// Run one full turn: record question → send prompt → record answer → synthesize speech → play
+async function runConversationTurn(prompt: ConversationPrompt): Promise<void> {
+  const app = useAppStore.getState()
+  const chat = useChatStore.getState()
+
+  const userId = useSessionStore.getState().userId
+  if (!userId) {
+    app.setError("User ID not available. Please refresh.")
+    app.setStatusMessage("Error with user initialization")
+    return
+  }
+
+  const userMessageId = createChatId()
+  chat.addMessage({
+    id: userMessageId,
+    // Asked in the conversation that is open now, even if the user switches before the answer arrives
+    conversationId: chat.activeConversationId,
+    text: prompt.kind === "text" ? prompt.text : VOICE_QUESTION_PLACEHOLDER,
+    sender: "user",
+    timestamp: new Date(),
+    status: "pending",
+  })
+
+  // Keep the recording so the user can check what was sent
+  if (prompt.kind === "audio") {
+    storeMessageAudio(userMessageId, prompt.audio).then((hasAudio) => {
+      if (hasAudio) useChatStore.getState().updateMessage(userMessageId, { hasAudio })
+    })
+  }
+
+  // Show the local transcript until (or unless) the backend provides its own
+  if (prompt.kind === "audio" && prompt.localTranscript) {
+    prompt.localTranscript
+      .then((transcript) => {
+        const message = useChatStore.getState().messages.find((msg) => msg.id === userMessageId)
+        if (transcript && message && message.transcriptSource !== "backend") {
+          useChatStore.getState().updateMessage(userMessageId, { text: transcript, transcriptSource: "device" })
+        }
+      })
+      .catch((transcriptError) => logger(`Local transcription failed: ${transcriptError}`))
+  }
+
+  await submitPrompt(userId, userMessageId, prompt)
+}
+
+// The prompt behind a question, from its recording while that is still stored
+async function rebuildPrompt(message: ChatMessage): Promise<ConversationPrompt | null> {
+  if (!message.hasAudio) {
+    // A voice question whose recording couldn't be stored can only be resent as its transcript
+    return message.text === VOICE_QUESTION_PLACEHOLDER ? null : { kind: "text", text: message.text }
+  }
+  const audio = await loadMessageAudio(message.id).catch(() => null)
+  if (audio) return { kind: "audio", audio }
+  // The recording was evicted; fall back to what was transcribed
+  return message.transcriptSource ? { kind: "text", text: message.text } : null
+}
+
+// Retry a failed message: resend an unanswered question, or regenerate the speech for an answer
+export async function retryMessage(messageId: string): Promise<void> {
+  const app = useAppStore.getState()
+  const chat = useChatStore.getState()
+  const message = chat.messages.find((msg) => msg.id === messageId)
+  const userId = useSessionStore.getState().userId
+  if (!message || message.status !== "error" || !userId) return
+
+  logger(`Retrying ${message.sender} message ${messageId}`)
+  if (message.sender === "ai") {
+    chat.updateMessage(messageId, { status: "streaming" })
+    const turnId = useConversationStore.getState().beginTurn()
+    await speakAnswer(userId, turnId, messageId, message.text)
+    return
+  }
+
+  const prompt = await rebuildPrompt(message)
+  if (!prompt) {
+    app.setError("The recording for this question is no longer available. Please ask it again.")
+    return
+  }
+  chat.updateMessage(messageId, { status: "pending", delivery: undefined })
+  await submitPrompt(userId, messageId, prompt)
+}
+
+// Deliver a question from the outbox; throws if it still can't be sent
+export async function deliverQueuedPrompt(userId: string, userMessageId: string, prompt: ConversationPrompt) {
+  await answerPrompt(userId, userMessageId, prompt, { throwOnSendError: true })
+}
+
+// Whether a turn is still waiting on the backend
+export function isConversationBusy(phase: ConversationPhase): boolean {
+  return phase === "sending" || phase === "synthesizing"
+}
+
+// Whether the user is asking something or hearing an answer, which always takes precedence over anything
+// Foresight says unprompted
+export function isUserTurnActive(): boolean {
+  const app = useAppStore.getState()
+  return (
+    app.isPressing ||
+    app.isRecording ||
+    app.isAnswerPlaying ||
+    isConversationBusy(useConversationStore.getState().phase)
+  )
+}
+
+export function useConversation() {
+  const phase = useConversationStore((state) => state.phase)
+
+  const sendText = useCallback((text: string) => runConversationTurn({ kind: "text", text }), [])
+  const sendAudio = useCallback(
+    (audio: Blob, localTranscript?: Promise<string | null>) =>
+      runConversationTurn({ kind: "audio", audio, localTranscript }),
+    [],
+  )
+
+  return {
+    phase,
+    isBusy: isConversationBusy(phase),
+    sendText,
+    sendAudio,
+    retry: retryMessage,
+    stop: stopConversation,
+  }
+}
@@ -0,0 +1,82 @@
+"use client"
+
+// Focus handling for modal dialogs: focus moves into the dialog when it opens, Tab stays inside it,
+// Escape closes it, and focus returns to whatever had it before (usually the button that opened it)
+import { type RefObject, useEffect, useRef } from "react"
+
+const FOCUSABLE_SELECTOR = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  '[tabindex]:not([tabindex="-1"])',
+].join(",")
+
+// Helper to list the visible focusable elements inside a container, in tab order
+function getFocusableElements(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(
+    (element) => element.getClientRects().length > 0,
+  )
+}
+
+// dialogRef should point at the dialog element, which needs tabIndex={-1} so it can hold focus itself
+export function useDialogFocus(isOpen: boolean, dialogRef: RefObject<HTMLElement | null>, onClose: () => void) {
+  // Latest onClose without re-running the effect (and moving focus) on every render
+  const onCloseRef = useRef(onClose)
+  useEffect(() => {
+    onCloseRef.current = onClose
+  }, [onClose])
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const previouslyFocused = document.activeElement instanceof HTMLElement ? document.activeElement : null
+
+    // The dialog mounts as it animates in, so wait a frame before focusing it
+    const frame = requestAnimationFrame(() => {
+      const dialog = dialogRef.current
+      if (!dialog || dialog.contains(document.activeElement)) return
+      const [firstElement] = getFocusableElements(dialog)
+      ;(firstElement ?? dialog).focus()
+    })
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const dialog = dialogRef.current
+      // Controls inside the dialog can claim Escape (e.g. to cancel an edit) by preventing the default
+      if (!dialog || e.defaultPrevented) return
+
+      if (e.key === "Escape") {
+        // Closing the dialog shouldn't also stop the answer that is playing
+        e.stopPropagation()
+        onCloseRef.current()
+        return
+      }
+      if (e.key !== "Tab") return
+
+      const elements = getFocusableElements(dialog)
+      if (elements.length === 0) {
+        e.preventDefault()
+        dialog.focus()
+        return
+      }
+      const firstElement = elements[0]
+      const lastElement = elements[elements.length - 1]
+      const active = document.activeElement
+      if (e.shiftKey && (active === firstElement || !dialog.contains(active))) {
+        e.preventDefault()
+        lastElement.focus()
+      } else if (!e.shiftKey && (active === lastElement || !dialog.contains(active))) {
+        e.preventDefault()
+        firstElement.focus()
+      }
+    }
+    document.addEventListener("keydown", handleKeyDown)
+
+    return () => {
+      cancelAnimationFrame(frame)
+      document.removeEventListener("keydown", handleKeyDown)
+      previouslyFocused?.focus()
+    }
+  }, [isOpen, dialogRef])
+}
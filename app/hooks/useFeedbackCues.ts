@@ -0,0 +1,44 @@
+"use client"
+
+// Earcons and vibration for the recording lifecycle, so it can be followed without seeing the screen.
+// Driven by state changes rather than the individual call sites, which press-and-hold, the keyboard
+// and hands-free mode all reach by different paths.
+import { useEffect } from "react"
+import { useAppStore } from "../store/useAppStore"
+import { useConversationStore } from "../store/useConversationStore"
+import { type FeedbackEvent, playFeedback } from "../utils/feedbackCues"
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[useFeedbackCues] ${message}`)
+}
+
+export function useFeedbackCues() {
+  useEffect(() => {
+    const cue = (event: FeedbackEvent) => {
+      const { feedbackPreferences, speechPreferences } = useAppStore.getState()
+      logger(`Cue: ${event}`)
+      playFeedback(event, feedbackPreferences, speechPreferences.volume)
+    }
+
+    const unsubscribeApp = useAppStore.subscribe((state, previous) => {
+      // Set when the media recorder starts, and cleared once it has stopped and delivered the audio
+      if (state.isRecording && !previous.isRecording) cue("recording-start")
+      else if (!state.isRecording && previous.isRecording) cue("recording-stop")
+      // Cleared with null or an empty string
+      if (state.error && state.error !== previous.error) cue("error")
+    })
+
+    const unsubscribeConversation = useConversationStore.subscribe((state, previous) => {
+      if (state.phase === previous.phase) return
+      // A question went out, and later its answer audio was handed to the player
+      if (state.phase === "sending") cue("processing")
+      else if (state.phase === "ready") cue("answer-ready")
+    })
+
+    return () => {
+      unsubscribeApp()
+      unsubscribeConversation()
+    }
+  }, [])
+}
@@ -0,0 +1,110 @@
+"use client"
+
+// Framing guidance: tells the user by voice and vibration how to point the camera when frames are too dark,
+// blurry or, when reading text, badly framed. Spoken with the device's own voice so it is immediate and
+// works offline.
+import { useCallback, useEffect, useRef } from "react"
+import {
+  createFrameQualityAnalyzer,
+  FRAME_GUIDANCE,
+  type FrameIssue,
+  type FrameQualityAnalyzer,
+} from "../utils/frameQuality"
+import { isDeviceSpeechSupported, speakOnDevice } from "../utils/speechOutput"
+import { useAppStore } from "../store/useAppStore"
+import { isUserTurnActive } from "./useConversation"
+import { isNarrating } from "./useNarration"
+
+// An issue in the background checks must last this many checks in a row before it is mentioned
+const PERSISTENT_CHECKS = 3
+// Minimum gap between two pieces of guidance
+const MIN_GUIDANCE_GAP_MS = 3000
+// Two short buzzes, distinct from the recording cues
+const GUIDANCE_VIBRATION = [40, 60, 40]
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[useFramingGuidance] ${message}`)
+}
+
+// Issue seen by the latest background checks, and for how many checks in a row
+let currentIssue: FrameIssue | null = null
+let currentIssueChecks = 0
+// Background issue already mentioned; it isn't repeated until the frame is usable again
+let mentionedIssue: FrameIssue | null = null
+let lastGuidanceAt = 0
+let guidanceSpeaking = false
+
+// Whether guidance is being spoken (e.g. so hands-free mode doesn't record it)
+export function isGivingFramingGuidance(): boolean {
+  return guidanceSpeaking
+}
+
+// Say and buzz the guidance for an issue; false when held back (turned off, too soon after the last, or
+// someone else has the floor)
+export function giveFramingGuidance(issue: FrameIssue): boolean {
+  const app = useAppStore.getState()
+  if (!app.framingGuidanceEnabled || Date.now() - lastGuidanceAt < MIN_GUIDANCE_GAP_MS) return false
+  if (isUserTurnActive() || isNarrating()) return false
+  // Never talk over text being read aloud by the device
+  if (isDeviceSpeechSupported() && window.speechSynthesis.speaking && !guidanceSpeaking) return false
+
+  lastGuidanceAt = Date.now()
+  const message = FRAME_GUIDANCE[issue]
+  logger(`Guidance: ${message}`)
+  app.setStatusMessage(message)
+  if ("vibrate" in navigator) navigator.vibrate(GUIDANCE_VIBRATION)
+  if (isDeviceSpeechSupported()) {
+    guidanceSpeaking = true
+    speakOnDevice(message, app.speechPreferences)
+      .catch((error) => logger(`Speaking guidance failed: ${error}`))
+      .finally(() => {
+        guidanceSpeaking = false
+      })
+  }
+  return true
+}
+
+// Background check of each frame before upload: an issue is mentioned once it persists, and only once
+// until the frame is usable again, so a phone left face down doesn't keep talking
+function reportFrameIssue(issue: FrameIssue | null) {
+  if (issue !== currentIssue) {
+    currentIssue = issue
+    currentIssueChecks = 0
+  }
+  currentIssueChecks++
+  if (!issue) {
+    mentionedIssue = null
+    return
+  }
+  if (issue === mentionedIssue || currentIssueChecks < PERSISTENT_CHECKS) return
+  if (giveFramingGuidance(issue)) mentionedIssue = issue
+}
+
+// Returns a check for the frame scheduler: the issue that makes the current frame not worth uploading, if any
+export function useFramingGuidance() {
+  const analyzerRef = useRef<FrameQualityAnalyzer | null>(null)
+
+  useEffect(() => {
+    return () => {
+      currentIssue = null
+      currentIssueChecks = 0
+      mentionedIssue = null
+    }
+  }, [])
+
+  return useCallback((video: HTMLVideoElement): FrameIssue | null => {
+    analyzerRef.current ??= createFrameQualityAnalyzer()
+    const quality = analyzerRef.current.analyze(video)
+    // Unknown (video not ready) counts as usable; the upload itself reports a missing frame
+    const issue = quality?.issue ?? null
+    if (quality) {
+      logger(
+        `Frame brightness ${quality.brightness.toFixed(2)}, sharpness ${Math.round(quality.sharpness)}, ` +
+          `motion ${quality.motion.toFixed(3)}${issue ? ` (${issue})` : ""}`,
+      )
+    }
+    reportFrameIssue(issue)
+    return issue
+  }, [])
+}
@@ -0,0 +1,98 @@
+"use client"
+
+// Drives recording from voice activity instead of press-and-hold while hands-free mode is on
+import { useEffect, useRef, useState } from "react"
+import { useAppStore } from "../store/useAppStore"
+import { createVoiceActivityDetector } from "../utils/voiceActivity"
+
+export type HandsFreeStatus =
+  | "off" // hands-free mode disabled
+  | "unavailable" // enabled but the microphone or Web Audio isn't ready
+  | "waiting" // monitoring the microphone for speech
+  | "capturing" // speech detected, recording
+
+interface UseHandsFreeOptions {
+  // Microphone stream shared with the MediaRecorder
+  stream: MediaStream | null
+  onSpeechStart: () => void
+  onSpeechEnd: () => void
+  // Return true while detection should be ignored (answer playing, request in flight, manual press)
+  isPaused: () => boolean
+}
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[useHandsFree] ${message}`)
+}
+
+export function useHandsFree({ stream, onSpeechStart, onSpeechEnd, isPaused }: UseHandsFreeOptions) {
+  const { handsFreeEnabled, handsFreeSensitivity } = useAppStore()
+  const [status, setStatus] = useState<HandsFreeStatus>("off")
+  // Updated on every analysis tick; read by meters without re-rendering the camera view
+  const levelRef = useRef(0)
+  const detectorRef = useRef<ReturnType<typeof createVoiceActivityDetector> | null>(null)
+
+  // Keep the latest callbacks without restarting detection on every render
+  const callbacksRef = useRef({ onSpeechStart, onSpeechEnd, isPaused })
+  useEffect(() => {
+    callbacksRef.current = { onSpeechStart, onSpeechEnd, isPaused }
+  }, [onSpeechStart, onSpeechEnd, isPaused])
+
+  useEffect(() => {
+    if (!handsFreeEnabled) {
+      setStatus("off")
+      return
+    }
+    if (!stream) {
+      setStatus("unavailable")
+      return
+    }
+
+    const detector = createVoiceActivityDetector({
+      stream,
+      sensitivity: useAppStore.getState().handsFreeSensitivity,
+      isEnabled: () => !callbacksRef.current.isPaused(),
+      onLevel: (level) => {
+        levelRef.current = level
+      },
+      onEvent: (event) => {
+        if (event === "speech-start") {
+          setStatus("capturing")
+          callbacksRef.current.onSpeechStart()
+        } else {
+          setStatus("waiting")
+          callbacksRef.current.onSpeechEnd()
+        }
+      },
+    })
+    detectorRef.current = detector
+
+    let cancelled = false
+    detector
+      .start()
+      .then(() => {
+        if (!cancelled) {
+          setStatus("waiting")
+          logger("Listening for speech")
+        }
+      })
+      .catch((error) => {
+        logger(`Could not start voice activity detection: ${error}`)
+        if (!cancelled) setStatus("unavailable")
+      })
+
+    return () => {
+      cancelled = true
+      detector.stop()
+      detectorRef.current = null
+      levelRef.current = 0
+    }
+  }, [handsFreeEnabled, stream])
+
+  // Adjust sensitivity live without restarting detection
+  useEffect(() => {
+    detectorRef.current?.setSensitivity(handsFreeSensitivity)
+  }, [handsFreeSensitivity])
+
+  return { status, levelRef }
+}
@@ -0,0 +1,37 @@
+"use client"
+
+// Lists cameras or microphones and keeps the list fresh as devices are plugged in or removed
+import { useCallback, useEffect, useState } from "react"
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[useMediaDevices] ${message}`)
+}
+
+export function useMediaDevices(kind: MediaDeviceKind) {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+
+  const refresh = useCallback(async () => {
+    if (typeof navigator === "undefined" || !navigator.mediaDevices?.enumerateDevices) return
+    try {
+      const allDevices = await navigator.mediaDevices.enumerateDevices()
+      const matching = allDevices.filter((device) => device.kind === kind)
+      setDevices(matching)
+      logger(`Found ${matching.length} ${kind} device(s)`)
+    } catch (error) {
+      logger(`Could not enumerate devices: ${error}`)
+    }
+  }, [kind])
+
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !navigator.mediaDevices) return
+
+    refresh()
+    navigator.mediaDevices.addEventListener("devicechange", refresh)
+    return () => {
+      navigator.mediaDevices.removeEventListener("devicechange", refresh)
+    }
+  }, [refresh])
+
+  return { devices, refresh }
+}
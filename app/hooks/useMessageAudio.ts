@@ -0,0 +1,61 @@
+"use client"
+
+// Stored audio of chat messages: object URLs created while a message is on screen,
+// and removal of the stored audio once its message is deleted
+import { useEffect, useState } from "react"
+import { isIndexedDbAvailable } from "../utils/idb"
+import { acquireAudioUrl, deleteMessageAudio, pruneMessageAudio, releaseAudioUrl } from "../utils/messageAudio"
+import { useChatStore } from "../store/useChatStore"
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[useMessageAudio] ${message}`)
+}
+
+// Object URL of a message's audio while the component is mounted; null while loading or once evicted
+export function useMessageAudioUrl(messageId: string, hasAudio: boolean): string | null {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!hasAudio || !isIndexedDbAvailable()) return
+
+    let cancelled = false
+    acquireAudioUrl(messageId).then((objectUrl) => {
+      if (!cancelled) setUrl(objectUrl)
+    })
+    return () => {
+      cancelled = true
+      setUrl(null)
+      releaseAudioUrl(messageId)
+    }
+  }, [messageId, hasAudio])
+
+  return url
+}
+
+// Mount once near the root of the app
+export function useMessageAudioCleanup() {
+  useEffect(() => {
+    if (!isIndexedDbAvailable()) return
+
+    // Only prune against the persisted chat, not the empty state before hydration
+    const prune = () => {
+      const messageIds = new Set(useChatStore.getState().messages.map((msg) => msg.id))
+      pruneMessageAudio(messageIds).catch((error) => logger(`Could not prune stored audio: ${error}`))
+    }
+    const stopWaiting = useChatStore.persist.hasHydrated() ? undefined : useChatStore.persist.onFinishHydration(prune)
+    if (!stopWaiting) prune()
+
+    const unsubscribe = useChatStore.subscribe((state, previous) => {
+      if (state.messages === previous.messages) return
+      const remaining = new Set(state.messages.map((msg) => msg.id))
+      const removedIds = previous.messages.filter((msg) => !remaining.has(msg.id)).map((msg) => msg.id)
+      deleteMessageAudio(removedIds).catch((error) => logger(`Could not delete stored audio: ${error}`))
+    })
+
+    return () => {
+      unsubscribe()
+      stopWaiting?.()
+    }
+  }, [])
+}
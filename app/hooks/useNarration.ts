@@ -0,0 +1,241 @@
+"use client"
+
+// Narration mode: Foresight announces significant scene changes reported by frame uploads without being asked.
+// Narrations wait their turn: they never start while the user is asking something or hearing an answer,
+// and stop as soon as the user does. Rate limits keep them from getting chatty.
+import { useEffect } from "react"
+import { generateSpeech, type SceneChange, type SceneChangeKind } from "../utils/api"
+import { applySpeechPreferences } from "../utils/speechOutput"
+import { createSpeechSource } from "../utils/speechPlayback"
+import { useAppStore } from "../store/useAppStore"
+import { useConversationStore } from "../store/useConversationStore"
+import { useSessionStore } from "../store/useSessionStore"
+import { isUserTurnActive, speechOptions } from "./useConversation"
+
+// Cadences offered in the settings, in seconds
+export const NARRATION_INTERVALS = [10, 20, 30, 60]
+
+export const NARRATION_UNSUPPORTED_MESSAGE = "Narration isn't available: the backend doesn't report scene changes."
+
+// Most urgent first
+const KIND_PRIORITY: Record<SceneChangeKind, number> = { obstacle: 0, person: 1, text: 2 }
+// Only the most urgent few changes are kept; the rest would be out of date by the time they were spoken
+const MAX_QUEUED = 3
+// A change that hasn't been spoken within this long no longer describes the scene
+const MAX_NARRATION_AGE_MS = 15_000
+// The same announcement isn't repeated within this long
+const REPEAT_COOLDOWN_MS = 2 * 60_000
+// Pause after the user's own question or answer before narrating again
+const QUIET_AFTER_USER_MS = 5_000
+
+interface QueuedNarration {
+  change: SceneChange
+  receivedAt: number
+}
+
+interface ActiveNarration {
+  controller: AbortController
+  audio: HTMLAudioElement | null
+  // Object URL to revoke once done (buffered audio only; streamed URLs revoke themselves)
+  url: string | null
+}
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[useNarration] ${message}`)
+}
+
+let queue: QueuedNarration[] = []
+// When each announcement was last spoken
+const lastSpokenAt = new Map<string, number>()
+let lastNarrationAt = 0
+let quietUntil = 0
+let narrationTimer: ReturnType<typeof setTimeout> | null = null
+// The narration being prepared or spoken
+let activeNarration: ActiveNarration | null = null
+
+// Helper to key an announcement so rewordings that only differ in case or punctuation count as repeats
+function narrationKey(change: SceneChange): string {
+  return `${change.kind}:${change.summary.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim()}`
+}
+
+// Whether a narration is being prepared or spoken (e.g. so hands-free mode doesn't record it)
+export function isNarrating(): boolean {
+  return activeNarration !== null
+}
+
+function endNarration(narration: ActiveNarration) {
+  narration.controller.abort()
+  narration.audio?.pause()
+  if (narration.url) URL.revokeObjectURL(narration.url)
+}
+
+// Stop the narration being prepared or spoken; queued ones still wait their turn
+export function stopNarration() {
+  if (!activeNarration) return
+  endNarration(activeNarration)
+  activeNarration = null
+  logger("Narration stopped")
+}
+
+function clearNarrations() {
+  queue = []
+  if (narrationTimer) {
+    clearTimeout(narrationTimer)
+    narrationTimer = null
+  }
+  stopNarration()
+}
+
+// Helper to queue the changes reported by a frame upload
+function queueSceneChanges(changes: SceneChange[]) {
+  if (!useAppStore.getState().narrationEnabled || changes.length === 0) return
+
+  const now = Date.now()
+  const queuedKeys = new Set(queue.map((item) => narrationKey(item.change)))
+  for (const change of changes) {
+    const key = narrationKey(change)
+    if (queuedKeys.has(key) || now - (lastSpokenAt.get(key) ?? 0) < REPEAT_COOLDOWN_MS) continue
+    queuedKeys.add(key)
+    queue.push({ change, receivedAt: now })
+  }
+
+  // Most urgent first, newest first within a kind
+  queue.sort(
+    (a, b) => KIND_PRIORITY[a.change.kind] - KIND_PRIORITY[b.change.kind] || b.receivedAt - a.receivedAt,
+  )
+  queue = queue.slice(0, MAX_QUEUED)
+  scheduleNarration()
+}
+
+// Handle the result of an upload that asked to narrate. A backend without scene change support leaves
+// out "changes" entirely (a supporting one sends an empty list), so narration is turned off rather than
+// staying on without ever saying anything.
+export function handleNarratedUpload(changes: SceneChange[] | undefined) {
+  const app = useAppStore.getState()
+  if (changes === undefined) {
+    if (app.narrationSupported === false) return
+    logger("Backend doesn't report scene changes, turning narration off")
+    app.setNarrationSupported(false)
+    app.setNarrationEnabled(false)
+    app.setStatusMessage(NARRATION_UNSUPPORTED_MESSAGE)
+    return
+  }
+  if (!app.narrationSupported) app.setNarrationSupported(true)
+  queueSceneChanges(changes)
+}
+
+// Speak the next queued change if it's allowed now, otherwise check again once it will be
+function scheduleNarration() {
+  if (narrationTimer) {
+    clearTimeout(narrationTimer)
+    narrationTimer = null
+  }
+  // Resumed by useNarration once the user's turn ends
+  if (activeNarration || isUserTurnActive()) return
+
+  const now = Date.now()
+  queue = queue.filter((item) => now - item.receivedAt <= MAX_NARRATION_AGE_MS)
+  if (queue.length === 0) return
+
+  const intervalMs = useAppStore.getState().narrationIntervalSeconds * 1000
+  const wait = Math.max(lastNarrationAt + intervalMs, quietUntil) - now
+  if (wait > 0) {
+    narrationTimer = setTimeout(scheduleNarration, wait)
+    return
+  }
+
+  const [next, ...rest] = queue
+  queue = rest
+  speakNarration(next.change)
+}
+
+async function speakNarration(change: SceneChange) {
+  const userId = useSessionStore.getState().userId
+  if (!userId) return
+
+  const narration: ActiveNarration = { controller: new AbortController(), audio: null, url: null }
+  activeNarration = narration
+  lastNarrationAt = Date.now()
+  lastSpokenAt.set(narrationKey(change), lastNarrationAt)
+  logger(`Narrating ${change.kind}: ${change.summary}`)
+
+  // Once stopped, the narration is no longer the active one and its late results are dropped
+  const isCurrent = () => activeNarration === narration
+  const finish = () => {
+    if (!isCurrent()) return
+    endNarration(narration)
+    activeNarration = null
+    // The cadence counts from the end of a narration
+    lastNarrationAt = Date.now()
+    scheduleNarration()
+  }
+
+  try {
+    const speech = await generateSpeech(userId, change.summary, {
+      ...speechOptions(),
+      signal: narration.controller.signal,
+    })
+    if (!isCurrent()) return
+    const source = await createSpeechSource(speech)
+    if (!source.streaming) narration.url = source.url
+    if (!isCurrent()) {
+      endNarration(narration)
+      return
+    }
+
+    const audio = new Audio()
+    narration.audio = audio
+    audio.onended = finish
+    audio.onerror = finish
+    audio.src = source.url
+    applySpeechPreferences(audio, useAppStore.getState().speechPreferences)
+    await audio.play()
+  } catch (error) {
+    if (isCurrent()) logger(`Narration failed: ${error}`)
+    finish()
+  }
+}
+
+// Turn narration on or off from the quick gesture, saying which since the gesture gives no visual feedback
+export function toggleNarration() {
+  const app = useAppStore.getState()
+  if (app.narrationSupported === false && !app.narrationEnabled) {
+    app.setStatusMessage(NARRATION_UNSUPPORTED_MESSAGE)
+    return
+  }
+  const enabled = !app.narrationEnabled
+  app.setNarrationEnabled(enabled)
+  app.setStatusMessage(enabled ? "Narration on. Foresight will tell you about changes around you." : "Narration off")
+  logger(`Narration ${enabled ? "enabled" : "disabled"}`)
+}
+
+// Keeps narration out of the way of the user's own questions and answers. Mount once.
+export function useNarration() {
+  useEffect(() => {
+    let wasUserTurnActive = isUserTurnActive()
+
+    const handleChange = () => {
+      const active = isUserTurnActive()
+      if (active) {
+        stopNarration()
+      } else if (wasUserTurnActive) {
+        quietUntil = Date.now() + QUIET_AFTER_USER_MS
+        scheduleNarration()
+      }
+      wasUserTurnActive = active
+    }
+
+    const unsubscribeApp = useAppStore.subscribe((state, previous) => {
+      if (previous.narrationEnabled && !state.narrationEnabled) clearNarrations()
+      handleChange()
+    })
+    const unsubscribeConversation = useConversationStore.subscribe(handleChange)
+
+    return () => {
+      unsubscribeApp()
+      unsubscribeConversation()
+      clearNarrations()
+    }
+  }, [])
+}
@@ -0,0 +1,74 @@
+"use client"
+
+// Delivers questions and frames from the offline outbox once the backend is reachable again
+import { useEffect } from "react"
+import { ApiAbortedError, isRetryableApiError, uploadImage } from "../utils/api"
+import { isIndexedDbAvailable } from "../utils/idb"
+import { startOutboxProcessor, type OutboxItem, type OutboxOutcome } from "../utils/outbox"
+import { useAppStore } from "../store/useAppStore"
+import { useChatStore } from "../store/useChatStore"
+import { deliverQueuedPrompt, isUserTurnActive } from "./useConversation"
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[useOutboxSync] ${message}`)
+}
+
+async function deliver(item: OutboxItem): Promise<void> {
+  if (item.kind === "frame") {
+    await uploadImage(item.userId, item.image)
+    return
+  }
+
+  const messageId = item.messageId ?? item.id
+  useAppStore.getState().setStatusMessage("Connection restored. Sending your saved question...")
+  await deliverQueuedPrompt(
+    item.userId,
+    messageId,
+    item.kind === "text" ? { kind: "text", text: item.text } : { kind: "audio", audio: item.audio },
+  )
+}
+
+// A delivery cut short by the user interrupting (a new question or stop) is tried again later
+function isRetryable(error: unknown): boolean {
+  return isRetryableApiError(error) || error instanceof ApiAbortedError
+}
+
+// Questions whose chat message was deleted (e.g. history cleared) are no longer wanted
+function shouldDrop(item: OutboxItem): boolean {
+  if (item.kind === "frame") return false
+  const messageId = item.messageId ?? item.id
+  return !useChatStore.getState().messages.some((msg) => msg.id === messageId)
+}
+
+// Sending a saved question starts a new turn, which would cut off the one the user is asking or hearing
+function shouldDefer(item: OutboxItem): boolean {
+  return item.kind !== "frame" && isUserTurnActive()
+}
+
+function onSettled(item: OutboxItem, outcome: OutboxOutcome) {
+  if (item.kind === "frame" || outcome === "dropped") {
+    logger(`Queued ${item.kind} ${item.id} ${outcome}`)
+    return
+  }
+
+  const messageId = item.messageId ?? item.id
+  // A delivered question's status is set by the answer pipeline itself
+  useChatStore
+    .getState()
+    .updateMessage(messageId, outcome === "failed" ? { delivery: outcome, status: "error" } : { delivery: outcome })
+  if (outcome === "failed") {
+    useAppStore.getState().setError("A saved question could not be sent. Please ask it again.")
+  }
+}
+
+// Mount once near the root of the app
+export function useOutboxSync() {
+  useEffect(() => {
+    if (!isIndexedDbAvailable()) {
+      logger("IndexedDB unavailable, offline queue disabled")
+      return
+    }
+    return startOutboxProcessor({ deliver, isRetryable, shouldDrop, shouldDefer, onSettled })
+  }, [])
+}
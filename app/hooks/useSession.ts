@@ -0,0 +1,116 @@
+"use client"
+
+// Session lifecycle: resolving the user on startup, email sign-in and sign-out.
+// useSessionStore is the single source of truth for the user id; the proxy's session cookie backs it.
+import { useCallback } from "react"
+import { ApiHttpError, createUser, getSession, requestSignInLink, signOut as endSession } from "../utils/api"
+import { isIndexedDbAvailable } from "../utils/idb"
+import { clearOutbox } from "../utils/outbox"
+import { useChatStore } from "../store/useChatStore"
+import { useConversationStore } from "../store/useConversationStore"
+import { useSessionStore } from "../store/useSessionStore"
+
+export type AuthRedirectOutcome = "signed-in" | "invalid-link"
+
+// Where the user id was kept before the session store existed
+const LEGACY_USER_ID_KEY = "sfhacks_user_id"
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[useSession] ${message}`)
+}
+
+let sessionPromise: Promise<string> | null = null
+
+// Read and remove the legacy id so it can't drift from the session store again
+function takeLegacyUserId(): string | null {
+  try {
+    const userId = localStorage.getItem(LEGACY_USER_ID_KEY)
+    localStorage.removeItem(LEGACY_USER_ID_KEY)
+    return userId
+  } catch {
+    return null
+  }
+}
+
+async function resolveSession(): Promise<string> {
+  const store = useSessionStore.getState()
+  const legacyUserId = takeLegacyUserId()
+  try {
+    const session = await getSession()
+    store.setSession({ userId: session.user_id, email: session.email, accountsAvailable: true })
+    logger(session.email ? "Signed in" : "Anonymous session")
+    return session.user_id
+  } catch (error) {
+    // Without the proxy (the mock, or the backend directly) there are no accounts, only a user id
+    if (error instanceof ApiHttpError && error.status === 404) {
+      const userId = store.userId ?? legacyUserId ?? (await createUser())
+      store.setSession({ userId, email: null, accountsAvailable: false })
+      logger("Accounts unavailable, using a device-only user")
+      return userId
+    }
+    // Offline: keep the last known user so questions can still be queued
+    if (store.userId) {
+      logger("Could not refresh the session, using the last known user")
+      return store.userId
+    }
+    throw error
+  }
+}
+
+// Resolve the user once per page load; later calls share the result
+export function initializeSession(): Promise<string> {
+  if (!sessionPromise) {
+    sessionPromise = resolveSession()
+    // Allow a retry if it failed
+    sessionPromise.catch(() => {
+      sessionPromise = null
+    })
+  }
+  return sessionPromise
+}
+
+// Outcome of arriving from a sign-in link (?auth=...), removed from the address bar once read
+export function consumeAuthRedirect(): AuthRedirectOutcome | null {
+  if (typeof window === "undefined") return null
+  const url = new URL(window.location.href)
+  const outcome = url.searchParams.get("auth")
+  if (!outcome) return null
+  url.searchParams.delete("auth")
+  window.history.replaceState(null, "", url)
+  return outcome === "signed-in" || outcome === "invalid-link" ? outcome : null
+}
+
+// End the session and remove what this device kept for the user, then start a new anonymous session
+async function signOutAndClear(): Promise<void> {
+  if (useSessionStore.getState().accountsAvailable) {
+    await endSession()
+  }
+  useConversationStore.getState().cancelTurn()
+  useChatStore.getState().reset()
+  if (isIndexedDbAvailable()) {
+    await clearOutbox().catch((error) => logger(`Could not clear outbox: ${error}`))
+  }
+  useSessionStore.getState().clearSession()
+
+  sessionPromise = null
+  await initializeSession()
+}
+
+export function useSession() {
+  const userId = useSessionStore((state) => state.userId)
+  const email = useSessionStore((state) => state.email)
+  const accountsAvailable = useSessionStore((state) => state.accountsAvailable)
+
+  const sendSignInLink = useCallback((address: string) => requestSignInLink(address), [])
+  const signOut = useCallback(() => signOutAndClear(), [])
+
+  return {
+    userId,
+    email,
+    accountsAvailable,
+    isSignedIn: email !== null,
+    sendSignInLink,
+    signOut,
+  }
+}
@@ -0,0 +1,140 @@
+"use client"
+
+// "Read text" mode: takes a high-resolution still, reads the text in it on the device and speaks it.
+// The result is added to the active conversation so it can be read again or copied.
+import { useCallback, useEffect, useRef, useState } from "react"
+import { createFrameQualityAnalyzer } from "../utils/frameQuality"
+import { captureStill } from "../utils/stillCapture"
+import { recognizeText, stopTextRecognition } from "../utils/textRecognition"
+import { useAppStore } from "../store/useAppStore"
+import { createChatId, useChatStore } from "../store/useChatStore"
+import { interruptConversation, readMessageAloud } from "./useConversation"
+import { giveFramingGuidance } from "./useFramingGuidance"
+import { stopNarration } from "./useNarration"
+
+// How long to coach the user towards a well framed page before taking the photo anyway
+const FRAMING_TIMEOUT_MS = 8000
+const FRAMING_CHECK_INTERVAL_MS = 500
+// Consecutive good checks needed, so the photo isn't taken mid-movement
+const FRAMING_STABLE_CHECKS = 2
+
+// Logger function
+const logger = (message: string) => {
+  console.log(`[useTextReading] ${message}`)
+}
+
+// Guide the user until the text is lit, sharp and fully in view (or give up after a while).
+// Returns false if cancelled before the photo should be taken.
+async function waitForFraming(video: HTMLVideoElement, isCancelled: () => boolean): Promise<boolean> {
+  const analyzer = createFrameQualityAnalyzer()
+  const deadline = Date.now() + FRAMING_TIMEOUT_MS
+  let goodChecks = 0
+  while (Date.now() < deadline) {
+    if (isCancelled()) return false
+    const quality = analyzer.analyze(video, { document: true })
+    if (!quality) return true
+    if (quality.issue) {
+      goodChecks = 0
+      giveFramingGuidance(quality.issue)
+    } else if (++goodChecks >= FRAMING_STABLE_CHECKS) {
+      return true
+    }
+    await new Promise((resolve) => setTimeout(resolve, FRAMING_CHECK_INTERVAL_MS))
+  }
+  logger("Framing still not ideal, taking the photo anyway")
+  return true
+}
+
+// getVideo returns the element showing the camera, or null while it isn't ready
+export function useTextReading(getVideo: () => HTMLVideoElement | null) {
+  const [isReadingText, setIsReadingText] = useState(false)
+  const [progress, setProgress] = useState(0) // 0-1 while recognizing
+  // Guards against a second read starting before the state update lands
+  const readingRef = useRef(false)
+  const mountedRef = useRef(true)
+
+  useEffect(() => {
+    mountedRef.current = true
+    return () => {
+      mountedRef.current = false
+      stopTextRecognition()
+    }
+  }, [])
+
+  const readText = useCallback(async () => {
+    const video = getVideo()
+    if (!video || readingRef.current) return
+    readingRef.current = true
+    setIsReadingText(true)
+    setProgress(0)
+
+    // Reading text takes the floor, like a new question
+    interruptConversation()
+    stopNarration()
+    const { setStatusMessage, setError } = useAppStore.getState()
+    setError(null)
+
+    try {
+      if (useAppStore.getState().framingGuidanceEnabled) {
+        setStatusMessage("Looking for text...")
+        // A press or recording starting means the user moved on to a question
+        const isCancelled = () => {
+          const { isPressing, isRecording } = useAppStore.getState()
+          return !mountedRef.current || isPressing || isRecording
+        }
+        if (!(await waitForFraming(video, isCancelled))) {
+          logger("Text reading cancelled while framing")
+          return
+        }
+      }
+      setStatusMessage("Hold steady, taking a photo...")
+      const still = await captureStill(video)
+
+      setStatusMessage("Reading text...")
+      let lastPercent = 0
+      const { text } = await recognizeText(still, (value) => {
+        if (!mountedRef.current) return
+        setProgress(value)
+        // Coarse steps so the status line (and screen readers) aren't flooded
+        const percent = Math.floor(value * 4) * 25
+        if (percent > lastPercent && percent < 100) {
+          lastPercent = percent
+          setStatusMessage(`Reading text... ${percent}%`)
+        }
+      })
+
+      if (!text) {
+        logger("No text found")
+        setStatusMessage("No text found. Try moving closer, holding the camera level or adding light.")
+        return
+      }
+
+      const { activeConversationId, addMessage } = useChatStore.getState()
+      const messageId = createChatId()
+      addMessage({
+        id: messageId,
+        conversationId: activeConversationId,
+        text,
+        sender: "ai",
+        timestamp: new Date(),
+        status: "done",
+        source: "ocr",
+      })
+      setStatusMessage("Reading the text aloud")
+      await readMessageAloud(messageId, { deviceFallback: true })
+    } catch (error: unknown) {
+      const errorMsg = error instanceof Error ? error.message : "Unknown error"
+      logger(`Reading text failed: ${errorMsg}`)
+      setError(`Couldn't read the text: ${errorMsg}`)
+      setStatusMessage("Text reading failed")
+    } finally {
+      readingRef.current = false
+      if (mountedRef.current) {
+        setIsReadingText(false)
+        setProgress(0)
+      }
+    }
+  }, [getVideo])
+
+  return { isReadingText, progress, readText }
+}
@@ -0,0 +1,38 @@
+import type { Metadata } from "next"
+import Image from "next/image"
+
+export const metadata: Metadata = {
+  title: "Offline - Foresight",
+}
+
+// Served by the service worker when a page is requested without a connection
+export default function OfflinePage() {
+  return (
+    <main className="flex flex-col items-center justify-center min-h-screen px-6 text-center bg-[#1D1D1D] font-[family-name:var(--font-geist-sans)]">
+      <Image
+        src="/images/foresight-logo.svg"
+        alt="Foresight Logo"
+        width={64}
+        height={64}
+        className="mb-6 object-contain [filter:brightness(0)_saturate(100%)_invert(56%)_sepia(83%)_saturate(1095%)_hue-rotate(314deg)_brightness(101%)_contrast(101%)]"
+      />
+      <h1 className="text-2xl font-bold bg-gradient-to-r from-[#FF7270] to-[#E15B73] bg-clip-text text-transparent mb-4">
+        You&apos;re offline
+      </h1>
+      <p className="text-slate-300 max-w-sm mb-2">
+        Foresight needs an internet connection to describe what your camera sees and to answer questions.
+      </p>
+      <p className="text-slate-400 text-sm max-w-sm mb-8">
+        Questions you ask while the app is open are saved and sent automatically once you&apos;re back online.
+      </p>
+      {/* A full page load so the request goes back through the network */}
+      {/* eslint-disable-next-line @next/next/no-html-link-for-pages */}
+      <a
+        href="/"
+        className="bg-gradient-to-r from-[#6A81FB] to-[#E15B73] text-white py-3 px-6 rounded-xl hover:opacity-90 transition-opacity"
+      >
+        Try again
+      </a>
+    </main>
+  )
+}
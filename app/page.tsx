@@ -7,6 +7,8 @@ import { motion } from "framer-motion";
 import Image from "next/image";
 import { ControlPanel } from "./components/ui/ControlPanel";
 import { ChatInterface } from "./components/ui/ChatInterface";
+import { LiveAnnouncer } from "./components/ui/LiveAnnouncer";
+import { UpdatePrompt } from "./components/ui/UpdatePrompt";
 
 export default function Home() {
   const {
@@ -15,6 +17,7 @@ export default function Home() {
     isRecording,
     isPressing,
     cameraReady,
+    narrationEnabled,
   } = useAppStore();
   const [isControlPanelOpen, setIsControlPanelOpen] = useState(false);
   const [isVideoStopped, setIsVideoStopped] = useState(false);
@@ -44,7 +47,8 @@ export default function Home() {
             <div className="w-10 h-10 mr-3 relative flex items-center">
               <Image
                 src="/images/foresight-logo.svg"
-                alt="Foresight Logo"
+                // Decorative next to the "Foresight" heading
+                alt=""
                 width={40}
                 height={40}
                 className="object-contain [filter:brightness(0)_saturate(100%)_invert(56%)_sepia(83%)_saturate(1095%)_hue-rotate(314deg)_brightness(101%)_contrast(101%)]"
@@ -68,12 +72,22 @@ export default function Home() {
             </motion.div>
           )}
 
+          {narrationEnabled && !isRecording && (
+            <div className="flex items-center bg-[#6A81FB]/20 px-3 py-1 rounded-full">
+              <div className="h-2 w-2 rounded-full bg-[#6A81FB] mr-2"></div>
+              <span className="text-sm text-white/80">Narrating</span>
+            </div>
+          )}
+
           <button
             onClick={() => setIsControlPanelOpen(true)}
             className="w-10 h-10 flex items-center justify-center rounded-full bg-slate-800/50 hover:bg-slate-700/50 transition-colors"
             aria-label="Open controls"
+            aria-haspopup="dialog"
+            aria-expanded={isControlPanelOpen}
           >
             <svg
+              aria-hidden="true"
               xmlns="http://www.w3.org/2000/svg"
               width="20"
               height="20"
@@ -114,7 +128,7 @@ export default function Home() {
 
       {/* Recording indicator - edge glow effect similar to Siri */}
       {isRecording && (
-        <div className="fixed inset-0 pointer-events-none z-20">
+        <div className="fixed inset-0 pointer-events-none z-20" aria-hidden="true">
           <div className="absolute inset-0 edge-glow-effect"></div>
         </div>
       )}
@@ -125,18 +139,21 @@ export default function Home() {
           initial={{ opacity: 0 }}
           animate={{ opacity: 0.8 }}
           className="fixed inset-0 pointer-events-none z-20"
+          aria-hidden="true"
         >
           <div className="absolute inset-4 rounded-3xl border border-[#6A81FB]/30"></div>
         </motion.div>
       )}
 
       {/* Press and hold indicator - moved outside of the main content flow to prevent shifting */}
+      {/* Hidden from screen readers, which get the same hint from the capture area's label */}
       {cameraReady && !isRecording && !isVideoStopped && (
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           transition={{ delay: 1 }}
           className="fixed bottom-0 left-0 right-0 flex justify-center pointer-events-none pb-4 z-40"
+          aria-hidden="true"
         >
           <div
             className={`bg-black/40 backdrop-blur-sm text-white px-6 py-3 rounded-full text-sm ${
@@ -164,6 +181,9 @@ export default function Home() {
         </motion.div>
       )}
 
+      {/* Spoken status and errors for screen readers */}
+      <LiveAnnouncer />
+
       {/* Chat Interface */}
       <ChatInterface />
 
@@ -173,6 +193,9 @@ export default function Home() {
         onClose={() => setIsControlPanelOpen(false)}
         onStopVideo={handleStopVideo}
       />
+
+      {/* New version available */}
+      <UpdatePrompt />
     </div>
   );
 }
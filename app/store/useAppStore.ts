@@ -1,14 +1,27 @@
 import { create } from "zustand"
 import { createJSONStorage, persist } from "zustand/middleware"
+import type { ImageQualityPreset } from "../utils/imageEncoding"
+import { DEFAULT_MIC_KEY, resolveMicProcessing, type MicProcessingSettings } from "../utils/audioInput"
+import { DEFAULT_SPEECH_PREFERENCES, normalizeSpeechPreferences, type SpeechPreferences } from "../utils/speechOutput"
+import {
+  DEFAULT_FEEDBACK_PREFERENCES,
+  type FeedbackChannels,
+  type FeedbackEvent,
+  type FeedbackPreferences,
+} from "../utils/feedbackCues"
+
+export type CameraFacingMode = "environment" | "user"
 
 interface AppState {
   // Error state
   error: string | null
   setError: (error: string | null) => void
 
-  // Status message
+  // Status message; routine updates (e.g. from every frame upload) pass announce=false to stay out of
+  // screen reader announcements
   statusMessage: string
-  setStatusMessage: (message: string) => void
+  statusAnnounced: boolean
+  setStatusMessage: (message: string, announce?: boolean) => void
 
   // Recording state
   isRecording: boolean
@@ -17,11 +30,26 @@ interface AppState {
   // Audio URL for playback
   audioURL: string | null
   setAudioURL: (url: string | null) => void
+  // Whether the answer player is currently producing sound
+  isAnswerPlaying: boolean
+  setIsAnswerPlaying: (isPlaying: boolean) => void
 
   // Camera state
   cameraReady: boolean
   setCameraReady: (ready: boolean) => void
 
+  // Camera selection; a device id takes precedence over the facing mode
+  cameraDeviceId: string | null
+  setCameraDeviceId: (deviceId: string | null) => void
+  cameraFacingMode: CameraFacingMode
+  setCameraFacingMode: (facingMode: CameraFacingMode) => void
+
+  // Microphone selection and per-device input processing (keyed by device id, "default" for the system mic)
+  micDeviceId: string | null
+  setMicDeviceId: (deviceId: string | null) => void
+  micProcessing: Record<string, MicProcessingSettings>
+  setMicProcessing: (deviceId: string | null, changes: Partial<MicProcessingSettings>) => void
+
   // Device detection
   isIOSDevice: boolean
   setIsIOSDevice: (isIOS: boolean) => void
@@ -34,14 +62,43 @@ interface AppState {
   mediaRecorder: MediaRecorder | null
   setMediaRecorder: (recorder: MediaRecorder | null) => void
 
-  // User ID
-  userId: string | null
-  setUserId: (id: string | null) => void
-
   // User interaction flag
   hasUserInteracted: boolean
   setHasUserInteracted: (hasInteracted: boolean) => void
 
+  // Vision upload quality preset
+  imageQuality: ImageQualityPreset
+  setImageQuality: (preset: ImageQualityPreset) => void
+
+  // Hands-free mode (voice activity detection instead of press-and-hold)
+  handsFreeEnabled: boolean
+  setHandsFreeEnabled: (enabled: boolean) => void
+  handsFreeSensitivity: number // 0-1
+  setHandsFreeSensitivity: (sensitivity: number) => void
+  wakeWord: string // Empty means every utterance is sent
+  setWakeWord: (wakeWord: string) => void
+
+  // Narration mode (announce significant scene changes without being asked)
+  narrationEnabled: boolean
+  setNarrationEnabled: (enabled: boolean) => void
+  narrationIntervalSeconds: number // Minimum time between narrations
+  setNarrationIntervalSeconds: (seconds: number) => void
+  // Whether the backend reports scene changes; null until a narrated upload has told us
+  narrationSupported: boolean | null
+  setNarrationSupported: (supported: boolean) => void
+
+  // Spoken and haptic hints when frames are too dark, blurry or badly framed
+  framingGuidanceEnabled: boolean
+  setFramingGuidanceEnabled: (enabled: boolean) => void
+
+  // How spoken answers and the greeting sound
+  speechPreferences: SpeechPreferences
+  setSpeechPreferences: (changes: Partial<SpeechPreferences>) => void
+
+  // Which earcons and vibrations signal each recording lifecycle event
+  feedbackPreferences: FeedbackPreferences
+  setFeedbackPreference: (event: FeedbackEvent, changes: Partial<FeedbackChannels>) => void
+
   // Press handling functions
   handlePressStart: () => void
   handlePressEnd: () => void
@@ -53,14 +110,29 @@ interface AppState {
 const initialState = {
   error: null,
   statusMessage: "Initializing camera...",
+  statusAnnounced: true,
   isRecording: false,
   audioURL: null,
+  isAnswerPlaying: false,
   cameraReady: false,
+  cameraDeviceId: null,
+  cameraFacingMode: "environment" as CameraFacingMode,
+  micDeviceId: null,
+  micProcessing: {} as Record<string, MicProcessingSettings>,
   isIOSDevice: false,
   isPressing: false,
   mediaRecorder: null,
-  userId: null,
   hasUserInteracted: false,
+  imageQuality: "balanced" as ImageQualityPreset,
+  handsFreeEnabled: false,
+  handsFreeSensitivity: 0.5,
+  wakeWord: "",
+  narrationEnabled: false,
+  narrationIntervalSeconds: 20,
+  narrationSupported: null,
+  framingGuidanceEnabled: true,
+  speechPreferences: DEFAULT_SPEECH_PREFERENCES,
+  feedbackPreferences: DEFAULT_FEEDBACK_PREFERENCES,
 }
 
 export const useAppStore = create<AppState>()(
@@ -70,15 +142,46 @@ export const useAppStore = create<AppState>()(
 
       // State setters
       setError: (error) => set({ error }),
-      setStatusMessage: (statusMessage) => set({ statusMessage }),
+      setStatusMessage: (statusMessage, statusAnnounced = true) => set({ statusMessage, statusAnnounced }),
       setIsRecording: (isRecording) => set({ isRecording }),
       setAudioURL: (audioURL) => set({ audioURL }),
+      setIsAnswerPlaying: (isAnswerPlaying) => set({ isAnswerPlaying }),
       setCameraReady: (cameraReady) => set({ cameraReady }),
+      setCameraDeviceId: (cameraDeviceId) => set({ cameraDeviceId }),
+      setCameraFacingMode: (cameraFacingMode) => set({ cameraFacingMode }),
+      setMicDeviceId: (micDeviceId) => set({ micDeviceId }),
+      setMicProcessing: (deviceId, changes) =>
+        set((state) => ({
+          micProcessing: {
+            ...state.micProcessing,
+            [deviceId || DEFAULT_MIC_KEY]: {
+              ...resolveMicProcessing(state.micProcessing, deviceId, state.isIOSDevice),
+              ...changes,
+            },
+          },
+        })),
       setIsIOSDevice: (isIOSDevice) => set({ isIOSDevice }),
       setIsPressing: (isPressing) => set({ isPressing }),
       setMediaRecorder: (mediaRecorder) => set({ mediaRecorder }),
-      setUserId: (userId) => set({ userId }),
       setHasUserInteracted: (hasUserInteracted) => set({ hasUserInteracted }),
+      setImageQuality: (imageQuality) => set({ imageQuality }),
+      setHandsFreeEnabled: (handsFreeEnabled) => set({ handsFreeEnabled }),
+      setHandsFreeSensitivity: (handsFreeSensitivity) =>
+        set({ handsFreeSensitivity: Math.min(1, Math.max(0, handsFreeSensitivity)) }),
+      setWakeWord: (wakeWord) => set({ wakeWord }),
+      setNarrationEnabled: (narrationEnabled) => set({ narrationEnabled }),
+      setNarrationIntervalSeconds: (narrationIntervalSeconds) => set({ narrationIntervalSeconds }),
+      setNarrationSupported: (narrationSupported) => set({ narrationSupported }),
+      setFramingGuidanceEnabled: (framingGuidanceEnabled) => set({ framingGuidanceEnabled }),
+      setSpeechPreferences: (changes) =>
+        set((state) => ({ speechPreferences: normalizeSpeechPreferences({ ...state.speechPreferences, ...changes }) })),
+      setFeedbackPreference: (event, changes) =>
+        set((state) => ({
+          feedbackPreferences: {
+            ...state.feedbackPreferences,
+            [event]: { ...state.feedbackPreferences[event], ...changes },
+          },
+        })),
 
       // Press handling functions
       handlePressStart: () => {
@@ -155,8 +258,29 @@ export const useAppStore = create<AppState>()(
     {
       name: "app-storage",
       storage: createJSONStorage(() => localStorage),
+      // v1: the user id moved to useSessionStore
+      version: 1,
+      migrate: (persistedState, version) => {
+        const state = persistedState as Record<string, unknown>
+        if (version < 1) {
+          delete state.userId
+        }
+        return state as Partial<AppState>
+      },
       partialize: (state) => ({
-        userId: state.userId,
+        imageQuality: state.imageQuality,
+        cameraDeviceId: state.cameraDeviceId,
+        cameraFacingMode: state.cameraFacingMode,
+        micDeviceId: state.micDeviceId,
+        micProcessing: state.micProcessing,
+        handsFreeEnabled: state.handsFreeEnabled,
+        handsFreeSensitivity: state.handsFreeSensitivity,
+        wakeWord: state.wakeWord,
+        narrationEnabled: state.narrationEnabled,
+        narrationIntervalSeconds: state.narrationIntervalSeconds,
+        framingGuidanceEnabled: state.framingGuidanceEnabled,
+        speechPreferences: state.speechPreferences,
+        feedbackPreferences: state.feedbackPreferences,
       }),
     },
   ),
@@ -1,44 +1,200 @@
 import { create } from "zustand"
 import { createJSONStorage, persist } from "zustand/middleware"
 
+// Lifecycle of a message: a question is "pending" until answered, an answer is "streaming" while
+// its speech is generated, and either becomes "error" when that fails (and can be retried)
+export type MessageStatus = "pending" | "streaming" | "done" | "error"
+
 export interface ChatMessage {
   id: string
+  conversationId: string
   text: string
   sender: "user" | "ai"
   timestamp: Date
-  audioUrl?: string // Optional URL for audio playback
+  status: MessageStatus
+  hasAudio?: boolean // Audio for replay is stored in IndexedDB under the message id (utils/messageAudio)
+  transcriptSource?: "backend" | "device" // Where the text of a voice question came from
+  delivery?: "queued" | "sent" | "failed" // Only set for questions that went through the offline outbox
+  source?: "ocr" // Set for text read from the camera on this device rather than answered by the backend
+}
+
+// A separate thread with its own transcript and its own memory on the backend (its id is the backend session id)
+export interface Conversation {
+  id: string
+  title: string | null // Null until the user names it
+  createdAt: number
 }
 
 interface ChatState {
+  conversations: Conversation[]
+  activeConversationId: string
+  // Messages of every conversation, in the order they were added
   messages: ChatMessage[]
   addMessage: (message: ChatMessage) => void
-  clearMessages: () => void
+  updateMessage: (id: string, changes: Partial<Omit<ChatMessage, "id">>) => void
+  removeMessage: (id: string) => void
+  clearMessages: () => void // Only the active conversation
+  createConversation: (title?: string) => string
+  renameConversation: (id: string, title: string) => void
+  switchConversation: (id: string) => void
+  deleteConversation: (id: string) => void
+  reset: () => void // Forget every conversation (e.g. on sign-out)
+}
+
+// Unique id for messages and conversations; randomUUID is missing outside secure contexts
+// (e.g. plain http on a LAN address)
+export function createChatId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID()
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  // Set the version (4) and variant bits like randomUUID does
+  bytes[6] = (bytes[6] & 0x0f) | 0x40
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+function newConversation(title?: string): Conversation {
+  return { id: createChatId(), title: title?.trim() || null, createdAt: Date.now() }
+}
+
+// Name shown for a conversation: its title, else the start of its first question
+export function conversationLabel(conversation: Conversation, messages: ChatMessage[]): string {
+  if (conversation.title) return conversation.title
+  const firstQuestion = messages.find((msg) => msg.conversationId === conversation.id && msg.sender === "user")
+  if (!firstQuestion) return "New conversation"
+  return firstQuestion.text.length > 40 ? `${firstQuestion.text.slice(0, 40).trimEnd()}...` : firstQuestion.text
+}
+
+// Status for messages saved before statuses existed
+function inferStatus(message: Partial<ChatMessage>): MessageStatus {
+  if (message.delivery === "failed") return "error"
+  if (message.delivery === "queued") return "pending"
+  return "done"
 }
 
+// Replaced by the persisted conversations on hydration
+const initialConversation = newConversation()
+
 export const useChatStore = create<ChatState>()(
   persist(
     (set) => ({
+      conversations: [initialConversation],
+      activeConversationId: initialConversation.id,
       messages: [],
 
       addMessage: (message) =>
+        set((state) => {
+          // An answer arriving after its conversation was deleted has nowhere to go
+          if (!state.conversations.some((conversation) => conversation.id === message.conversationId)) return state
+          return {
+            messages: [
+              ...state.messages,
+              {
+                ...message,
+                // Ensure timestamp is a Date object when adding
+                timestamp: message.timestamp instanceof Date ? message.timestamp : new Date(message.timestamp),
+              },
+            ],
+          }
+        }),
+
+      updateMessage: (id, changes) =>
         set((state) => ({
-          messages: [
-            ...state.messages,
-            {
-              ...message,
-              // Ensure timestamp is a Date object when adding
-              timestamp: message.timestamp instanceof Date ? message.timestamp : new Date(message.timestamp),
-            },
-          ],
+          messages: state.messages.map((msg) => (msg.id === id ? { ...msg, ...changes } : msg)),
         })),
 
-      clearMessages: () => set({ messages: [] }),
+      removeMessage: (id) =>
+        set((state) => ({
+          messages: state.messages.filter((msg) => msg.id !== id),
+        })),
+
+      clearMessages: () =>
+        set((state) => ({
+          messages: state.messages.filter((msg) => msg.conversationId !== state.activeConversationId),
+        })),
+
+      createConversation: (title) => {
+        const conversation = newConversation(title)
+        set((state) => ({
+          conversations: [...state.conversations, conversation],
+          activeConversationId: conversation.id,
+        }))
+        return conversation.id
+      },
+
+      renameConversation: (id, title) =>
+        set((state) => ({
+          conversations: state.conversations.map((conversation) =>
+            conversation.id === id ? { ...conversation, title: title.trim() || null } : conversation,
+          ),
+        })),
+
+      switchConversation: (id) =>
+        set((state) =>
+          state.conversations.some((conversation) => conversation.id === id) ? { activeConversationId: id } : state,
+        ),
+
+      // There is always at least one conversation to talk in
+      deleteConversation: (id) =>
+        set((state) => {
+          const remaining = state.conversations.filter((conversation) => conversation.id !== id)
+          const conversations = remaining.length > 0 ? remaining : [newConversation()]
+          return {
+            conversations,
+            activeConversationId:
+              state.activeConversationId === id
+                ? conversations[conversations.length - 1].id
+                : state.activeConversationId,
+            messages: state.messages.filter((msg) => msg.conversationId !== id),
+          }
+        }),
+
+      reset: () => {
+        const conversation = newConversation()
+        set({ conversations: [conversation], activeConversationId: conversation.id, messages: [] })
+      },
     }),
     {
       name: "chat-storage",
       storage: createJSONStorage(() => localStorage),
+      // v1: every message has a status, and ids are unique
+      // v2: messages belong to conversations
+      // v3: audio lives in IndexedDB instead of blob URLs
+      version: 3,
+      migrate: (persistedState, version) => {
+        const state = persistedState as {
+          conversations?: Conversation[]
+          activeConversationId?: string
+          messages?: (Partial<ChatMessage> & { audioUrl?: string })[]
+        }
+        if (version < 1) {
+          // Date.now() ids could collide when two messages were created in the same millisecond
+          const seenIds = new Set<string>()
+          state.messages = (state.messages ?? []).map((msg) => {
+            const id = msg.id && !seenIds.has(msg.id) ? msg.id : createChatId()
+            seenIds.add(id)
+            return { ...msg, id, status: msg.status ?? inferStatus(msg) }
+          })
+        }
+        if (version < 2) {
+          // The existing transcript becomes the first conversation
+          const conversation = newConversation()
+          state.conversations = [conversation]
+          state.activeConversationId = conversation.id
+          state.messages = (state.messages ?? []).map((msg) => ({ ...msg, conversationId: conversation.id }))
+        }
+        if (version < 3) {
+          // Saved blob URLs died with the page that created them
+          for (const msg of state.messages ?? []) delete msg.audioUrl
+        }
+        return state as Partial<ChatState>
+      },
       // Transform the data when hydrating from storage to ensure timestamps are Date objects
       partialize: (state) => ({
+        conversations: state.conversations,
+        activeConversationId: state.activeConversationId,
         messages: state.messages.map((msg) => ({
           ...msg,
           timestamp: msg.timestamp instanceof Date ? msg.timestamp.toISOString() : msg.timestamp,
@@ -50,10 +206,14 @@ export const useChatStore = create<ChatState>()(
           state.messages = state.messages.map((msg) => ({
             ...msg,
             timestamp: msg.timestamp instanceof Date ? msg.timestamp : new Date(msg.timestamp),
+            // Work that was in progress when the page closed won't finish; queued questions still will
+            status:
+              (msg.status === "pending" && msg.delivery !== "queued") || msg.status === "streaming"
+                ? "error"
+                : msg.status,
           }))
         }
       },
     },
   ),
 )
-
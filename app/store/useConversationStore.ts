@@ -0,0 +1,64 @@
+import { create } from "zustand"
+
+// Progress of the current question → answer turn
+export type ConversationPhase =
+  | "idle" // nothing in flight
+  | "sending" // prompt sent, waiting for the answer text
+  | "synthesizing" // answer received, generating speech
+  | "ready" // answer audio handed to the player
+  | "error" // the turn failed
+  | "cancelled" // the turn was abandoned before finishing
+
+interface ConversationState {
+  phase: ConversationPhase
+  // Id of the turn whose results are still wanted; results from any other turn are stale
+  activeTurnId: string | null
+
+  beginTurn: () => string
+  setPhase: (turnId: string, phase: ConversationPhase) => void
+  isActiveTurn: (turnId: string) => boolean
+  // Signal that aborts the turn's requests once it is cancelled or superseded
+  getTurnSignal: (turnId: string) => AbortSignal
+  cancelTurn: () => void
+}
+
+let turnCounter = 0
+// Aborts the requests of the active turn; kept outside the state since it never needs to render
+let turnController: AbortController | null = null
+
+export const useConversationStore = create<ConversationState>()((set, get) => ({
+  phase: "idle",
+  activeTurnId: null,
+
+  // Start a new turn; any previous turn becomes stale and its requests are aborted
+  beginTurn: () => {
+    turnController?.abort()
+    turnController = new AbortController()
+    turnCounter += 1
+    const turnId = `turn-${Date.now()}-${turnCounter}`
+    set({ activeTurnId: turnId, phase: "sending" })
+    return turnId
+  },
+
+  // Only the active turn may report progress
+  setPhase: (turnId, phase) => {
+    if (get().activeTurnId === turnId) {
+      set({ phase })
+    }
+  },
+
+  isActiveTurn: (turnId) => get().activeTurnId === turnId,
+
+  getTurnSignal: (turnId) => {
+    if (get().activeTurnId === turnId && turnController) return turnController.signal
+    return AbortSignal.abort()
+  },
+
+  cancelTurn: () => {
+    turnController?.abort()
+    turnController = null
+    if (get().activeTurnId) {
+      set({ activeTurnId: null, phase: "cancelled" })
+    }
+  },
+}))
@@ -0,0 +1,80 @@
+import { create } from "zustand"
+import { applySpeechPreferences } from "../utils/speechOutput"
+import { useAppStore } from "./useAppStore"
+
+// Speeds a speed button steps through, slowest first
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2, 2.5, 3]
+
+// The next faster speed, wrapping around to the slowest
+export function nextPlaybackRate(rate: number): number {
+  return PLAYBACK_RATES.find((candidate) => candidate > rate) ?? PLAYBACK_RATES[0]
+}
+
+interface PlaybackState {
+  // Chat message whose audio is loaded in the player (null for audio that belongs to no message)
+  sourceMessageId: string | null
+  isPlaying: boolean
+  currentTime: number
+  duration: number
+
+  setSourceMessageId: (messageId: string | null) => void
+  // Reported by the AudioPlayer as its element plays
+  setIsPlaying: (isPlaying: boolean) => void
+  setProgress: (currentTime: number, duration: number) => void
+
+  // Controls for whatever is loaded, usable from anywhere (e.g. the chat panel)
+  togglePlayback: () => void
+  seek: (time: number) => void
+}
+
+// The AudioPlayer's audio element, the one engine everything plays through so only one thing sounds at a time.
+// Kept outside the state since it never needs to render.
+let playbackElement: HTMLAudioElement | null = null
+
+// Called by the AudioPlayer when it loads a source (with its element) and when it tears down (with null)
+export function attachPlaybackElement(element: HTMLAudioElement | null) {
+  playbackElement = element
+  if (element) {
+    applySpeechPreferences(element, useAppStore.getState().speechPreferences)
+  } else {
+    usePlaybackStore.setState({ isPlaying: false, currentTime: 0, duration: 0 })
+  }
+}
+
+export const usePlaybackStore = create<PlaybackState>()((set) => ({
+  sourceMessageId: null,
+  isPlaying: false,
+  currentTime: 0,
+  duration: 0,
+
+  setSourceMessageId: (sourceMessageId) => set({ sourceMessageId }),
+  setIsPlaying: (isPlaying) => set({ isPlaying }),
+  setProgress: (currentTime, duration) => set({ currentTime, duration }),
+
+  togglePlayback: () => {
+    const element = playbackElement
+    if (!element) return
+    if (!element.paused) {
+      element.pause()
+      return
+    }
+    // Start over once the end has been reached
+    if (Number.isFinite(element.duration) && element.currentTime >= element.duration - 0.1) {
+      element.currentTime = 0
+    }
+    element.volume = useAppStore.getState().speechPreferences.volume
+    element.play().catch((error) => console.error("[usePlaybackStore] Play failed:", error))
+  },
+
+  seek: (time) => {
+    if (playbackElement) playbackElement.currentTime = time
+    set({ currentTime: time })
+  },
+}))
+
+// Changed preferences apply to whatever is playing
+useAppStore.subscribe((state, previous) => {
+  if (playbackElement && state.speechPreferences !== previous.speechPreferences) {
+    applySpeechPreferences(playbackElement, state.speechPreferences)
+  }
+})
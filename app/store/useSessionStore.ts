@@ -0,0 +1,41 @@
+import { create } from "zustand"
+import { createJSONStorage, persist } from "zustand/middleware"
+
+// The one place the client keeps who the user is
+interface SessionState {
+  // Backend user id; with the proxy this mirrors the session cookie, otherwise it is the id itself
+  userId: string | null
+  // Account email once signed in, null while anonymous
+  email: string | null
+  // False when talking to a backend without the proxy's account routes (e.g. the mock)
+  accountsAvailable: boolean
+
+  setSession: (session: { userId: string; email: string | null; accountsAvailable: boolean }) => void
+  clearSession: () => void
+}
+
+const initialState = {
+  userId: null,
+  email: null,
+  accountsAvailable: true,
+}
+
+export const useSessionStore = create<SessionState>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      setSession: ({ userId, email, accountsAvailable }) => set({ userId, email, accountsAvailable }),
+      clearSession: () => set(initialState),
+    }),
+    {
+      name: "session-storage",
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({
+        userId: state.userId,
+        email: state.email,
+        accountsAvailable: state.accountsAvailable,
+      }),
+    },
+  ),
+)
@@ -1,11 +1,62 @@
 // Client-side API utilities
 import axios from "axios"
+import { getApiConfig } from "./config"
+import { ApiAbortedError, ApiContractError, ApiError, ApiHttpError, ApiNetworkError } from "./apiErrors"
+import {
+  type ClearHistoryResponse,
+  type ConversationResponse,
+  type SessionResponse,
+  type SignInResponse,
+  type SpeechResponse,
+  type VisionUploadResponse,
+  parseClearHistoryResponse,
+  parseConversationResponse,
+  parseCreateUserResponse,
+  parseSessionResponse,
+  parseSignInResponse,
+  parseSpeechContentType,
+  parseVisionUploadResponse,
+} from "./apiTypes"
+
+export type {
+  ClearHistoryResponse,
+  ConversationResponse,
+  SceneChange,
+  SceneChangeKind,
+  SessionResponse,
+  SignInResponse,
+  SpeechResponse,
+  VisionUploadResponse,
+} from "./apiTypes"
+export {
+  ApiError,
+  ApiHttpError,
+  ApiNetworkError,
+  ApiAbortedError,
+  ApiContractError,
+  isRetryableApiError,
+} from "./apiErrors"
+
+// Per-request options; aborting the signal cancels the request with an ApiAbortedError
+export interface RequestOptions {
+  signal?: AbortSignal
+}
 
-// Base URL for the API
-const API_BASE_URL = "https://sfhacks-backend.onrender.com/api"
+// Voice and language for generated speech; omitted ones use the backend default
+export interface SpeechRequestOptions extends RequestOptions {
+  voice?: string
+  language?: string
+}
 
-// Storage key for user ID
-const USER_ID_STORAGE_KEY = "sfhacks_user_id"
+// Conversation requests can target one of the user's sessions; without one the backend uses its default memory
+export interface ConversationRequestOptions extends RequestOptions {
+  sessionId?: string
+}
+
+// Frame uploads can ask the backend to report significant scene changes for narration
+export interface VisionUploadOptions extends RequestOptions {
+  narrate?: boolean
+}
 
 // Simple logger object
 const logger = {
@@ -17,114 +68,161 @@ const logger = {
   },
 }
 
-// Helper function to save user ID to localStorage
-export function saveUserId(userId: string): void {
-  try {
-    if (typeof window !== "undefined") {
-      localStorage.setItem(USER_ID_STORAGE_KEY, userId)
-      logger.log("User ID saved to localStorage:", userId)
+// Build the full URL for an endpoint using the current configuration
+function apiUrl(endpoint: string): string {
+  return `${getApiConfig().baseUrl}${endpoint}`
+}
+
+// Helper function to log an API failure and convert it into a typed ApiError
+const handleApiError = (endpoint: string, error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    // Already typed (e.g. a contract violation detected after a successful response)
+    logger.error(error.message)
+    return error
+  }
+
+  if (axios.isCancel(error) || (error instanceof DOMException && error.name === "AbortError")) {
+    logger.log(`Request to ${endpoint} cancelled`)
+    return new ApiAbortedError(endpoint, { cause: error })
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      // The request was made and the server responded with a status code outside the range of 2xx
+      logger.error("API Error Response:", error.response.data)
+      logger.error("Status:", error.response.status)
+      return new ApiHttpError(endpoint, error.response.status, error.response.data, { cause: error })
+    }
+    if (error.request) {
+      // The request was made but no response was received
+      logger.error("No response received:", error.request)
+      return new ApiNetworkError(endpoint, error.message, { cause: error })
     }
-  } catch (error) {
-    logger.error("Error saving user ID to localStorage:", error)
   }
+
+  // Something happened in setting up the request that triggered an Error
+  const message = error instanceof Error ? error.message : String(error)
+  logger.error("Error:", message)
+  return new ApiError(endpoint, message, { cause: error })
 }
 
-// Helper function to get user ID from localStorage
-export function getUserId(): string | null {
+// 1. User API - Create a new user
+export async function createUser(): Promise<string> {
+  const endpoint = "/user/create"
   try {
-    if (typeof window !== "undefined") {
-      const userId = localStorage.getItem(USER_ID_STORAGE_KEY)
-      return userId
-    }
+    const response = await axios.get(apiUrl(endpoint), { timeout: getApiConfig().timeoutMs })
+    const { user_id: userId } = parseCreateUserResponse(endpoint, response.data)
+    logger.log("User created with ID:", userId)
+    return userId
   } catch (error) {
-    logger.error("Error getting user ID from localStorage:", error)
+    throw handleApiError(endpoint, error)
   }
-  return null
 }
 
-// Define a type for API errors
-type ApiError = Error & { 
-  response?: { 
-    data: unknown; 
-    status: number 
-  }; 
-  request?: unknown 
+// Session API (proxy only) - Current user and account, identified by the session cookie
+export async function getSession(): Promise<SessionResponse> {
+  const endpoint = "/auth/session"
+  try {
+    const response = await axios.get(apiUrl(endpoint), { timeout: getApiConfig().timeoutMs })
+    return parseSessionResponse(endpoint, response.data)
+  } catch (error) {
+    throw handleApiError(endpoint, error)
+  }
 }
 
-// Helper function to handle API errors
-const handleApiError = (error: ApiError) => {
-  if (error.response) {
-    // The request was made and the server responded with a status code outside the range of 2xx
-    logger.error("API Error Response:", error.response.data)
-    logger.error("Status:", error.response.status)
-  } else if (error.request) {
-    // The request was made but no response was received
-    logger.error("No response received:", error.request)
-  } else {
-    // Something happened in setting up the request that triggered an Error
-    logger.error("Error:", error.message)
+// Session API (proxy only) - Email a sign-in link
+export async function requestSignInLink(email: string): Promise<SignInResponse> {
+  const endpoint = "/auth/sign-in"
+  try {
+    logger.log("Requesting sign-in link")
+    const response = await axios.post(apiUrl(endpoint), { email }, { timeout: getApiConfig().timeoutMs })
+    return parseSignInResponse(endpoint, response.data)
+  } catch (error) {
+    throw handleApiError(endpoint, error)
   }
 }
 
-// 1. User API - Create a new user
-export async function createUser(): Promise<string> {
+// Session API (proxy only) - End the session
+export async function signOut(): Promise<void> {
+  const endpoint = "/auth/sign-out"
   try {
-    // First check if we already have a user ID in localStorage
-    const existingUserId = getUserId()
-    if (existingUserId) {
-      logger.log("Using existing user ID from localStorage:", existingUserId)
-      return existingUserId
-    }
-
-    // If no existing user ID, create a new one
-    const response = await axios.get(`${API_BASE_URL}/user/create`)
-    const userId = response.data.user_id
-    logger.log("User created with ID:", userId)
-
-    // Save the new user ID to localStorage
-    saveUserId(userId)
-
-    return userId
+    await axios.post(apiUrl(endpoint), null, { timeout: getApiConfig().timeoutMs })
+    logger.log("Signed out")
   } catch (error) {
-    handleApiError(error as ApiError)
-    throw error
+    throw handleApiError(endpoint, error)
   }
 }
 
+// Helper function to pick a file extension for an image MIME type
+function imageExtension(mimeType: string): string {
+  const subtype = mimeType.split("/")[1] ?? "jpeg"
+  return subtype === "jpeg" ? "jpg" : subtype
+}
+
 // 2. Vision API - Upload an image
-export async function uploadImage(userId: string, imageBlob: Blob): Promise<unknown> {
+export async function uploadImage(
+  userId: string,
+  imageBlob: Blob,
+  { signal, narrate }: VisionUploadOptions = {},
+): Promise<VisionUploadResponse> {
+  const endpoint = "/vision/upload"
   try {
     logger.log("Starting image upload")
 
-    // Convert Blob to base64 string
-    const base64Image = await blobToBase64(imageBlob)
-    // Remove the data:image/jpeg;base64, or data:image/png;base64, part if it exists
-    const base64Data = base64Image.includes("base64,") ? base64Image.split("base64,")[1] : base64Image
-
-    // Create JSON payload
-    const payload = {
-      user_id: userId,
-      mime_type: "image/png",
-      filename: "webcam_capture.png",
-      image_base64: base64Data,
-    }
+    // Report the type the encoder actually produced
+    const mimeType = imageBlob.type || "image/jpeg"
+    const filename = `webcam_capture.${imageExtension(mimeType)}`
+    const { timeoutMs, visionUploadTransport } = getApiConfig()
+
+    let response
+    if (visionUploadTransport === "multipart") {
+      // Send the raw bytes to avoid the ~33% base64 overhead
+      const formData = new FormData()
+      formData.append("user_id", userId)
+      formData.append("mime_type", mimeType)
+      formData.append("image_file", imageBlob, filename)
+      if (narrate) formData.append("narrate", "true")
+
+      logger.log(`Uploading ${imageBlob.size} byte ${mimeType} image (multipart) to:`, apiUrl(endpoint))
+      response = await axios.post(apiUrl(endpoint), formData, {
+        headers: {
+          "Content-Type": "multipart/form-data",
+        },
+        timeout: timeoutMs,
+        signal,
+      })
+    } else {
+      // Convert Blob to base64 string
+      const base64Image = await blobToBase64(imageBlob)
+      // Remove the data:image/jpeg;base64, or data:image/png;base64, part if it exists
+      const base64Data = base64Image.includes("base64,") ? base64Image.split("base64,")[1] : base64Image
+
+      // Create JSON payload
+      const payload = {
+        user_id: userId,
+        mime_type: mimeType,
+        filename,
+        image_base64: base64Data,
+        ...(narrate && { narrate: true }),
+      }
 
-    // Construct the URL
-    const apiUrl = `${API_BASE_URL}/vision/upload`
-    logger.log("Uploading image to:", apiUrl)
+      logger.log(`Uploading ${imageBlob.size} byte ${mimeType} image (JSON) to:`, apiUrl(endpoint))
 
-    // Send the request with JSON payload
-    const response = await axios.post(apiUrl, payload, {
-      headers: {
-        "Content-Type": "application/json",
-      },
-    })
+      // Send the request with JSON payload
+      response = await axios.post(apiUrl(endpoint), payload, {
+        headers: {
+          "Content-Type": "application/json",
+        },
+        timeout: timeoutMs,
+        signal,
+      })
+    }
 
-    logger.log("Image upload successful:", response.data)
-    return response.data
+    const result = parseVisionUploadResponse(endpoint, response.data)
+    logger.log("Image upload successful:", result)
+    return result
   } catch (error) {
-    handleApiError(error as ApiError)
-    throw error
+    throw handleApiError(endpoint, error)
   }
 }
 
@@ -139,21 +237,26 @@ function blobToBase64(blob: Blob): Promise<string> {
 }
 
 // 3. Vision API - Clear visual history
-export async function clearVisionHistory(userId: string): Promise<unknown> {
+export async function clearVisionHistory(
+  userId: string,
+  { signal }: RequestOptions = {},
+): Promise<ClearHistoryResponse> {
+  const endpoint = "/vision/clear"
   try {
-    const apiUrl = `${API_BASE_URL}/vision/clear`
-    logger.log("Clearing vision history at:", apiUrl)
+    logger.log("Clearing vision history at:", apiUrl(endpoint))
 
-    const response = await axios.get(apiUrl, {
+    const response = await axios.get(apiUrl(endpoint), {
       params: { user_id: userId },
+      timeout: getApiConfig().timeoutMs,
+      signal,
     })
 
-    logger.log("Vision history cleared:", response.data.message)
-    return response.data
+    const result = parseClearHistoryResponse(endpoint, response.data)
+    logger.log("Vision history cleared:", result.message)
+    return result
   } catch (error) {
     logger.error("Error clearing vision history:", error)
-    handleApiError(error as ApiError)
-    throw error
+    throw handleApiError(endpoint, error)
   }
 }
 
@@ -163,142 +266,169 @@ export function bufferToBlob(buffer: ArrayBuffer, mimeType = "audio/wav"): Blob
 }
 
 // 4. Conversation API - Send text prompt
-export async function sendTextPrompt(userId: string, textQuery: string): Promise<unknown> {
+export async function sendTextPrompt(
+  userId: string,
+  textQuery: string,
+  { signal, sessionId }: ConversationRequestOptions = {},
+): Promise<ConversationResponse> {
+  const endpoint = "/conversation/text"
   try {
-    const apiUrl = `${API_BASE_URL}/conversation/text`
-    logger.log("Sending text prompt to:", apiUrl)
-
-    const response = await axios.post(apiUrl, {
-      user_id: userId,
-      text_query: textQuery,
-    })
+    logger.log("Sending text prompt to:", apiUrl(endpoint))
+
+    const response = await axios.post(
+      apiUrl(endpoint),
+      {
+        user_id: userId,
+        session_id: sessionId,
+        text_query: textQuery,
+      },
+      { timeout: getApiConfig().timeoutMs, signal },
+    )
 
-    logger.log("Text prompt response:", response.data)
-    return response.data
+    const result = parseConversationResponse(endpoint, response.data)
+    logger.log("Text prompt response:", result)
+    return result
   } catch (error) {
     logger.error("Error sending text prompt:", error)
-    handleApiError(error as ApiError)
-    throw error
+    throw handleApiError(endpoint, error)
   }
 }
 
 // 5. Conversation API - Send audio prompt
-export async function sendAudioPrompt(userId: string, audioBlob: Blob): Promise<unknown> {
+export async function sendAudioPrompt(
+  userId: string,
+  audioBlob: Blob,
+  { signal, sessionId }: ConversationRequestOptions = {},
+): Promise<ConversationResponse> {
+  const endpoint = "/conversation/audio"
   try {
     // Create a FormData object
     const formData = new FormData()
 
     // Append the user ID and audio blob
     formData.append("user_id", userId)
+    if (sessionId) formData.append("session_id", sessionId)
     formData.append("audio_file", audioBlob, "audio_recording.wav")
 
-    const apiUrl = `${API_BASE_URL}/conversation/audio`
-    logger.log("Sending audio prompt to:", apiUrl)
+    logger.log("Sending audio prompt to:", apiUrl(endpoint))
 
-    const response = await axios.post(apiUrl, formData, {
+    const response = await axios.post(apiUrl(endpoint), formData, {
       headers: {
         "Content-Type": "multipart/form-data",
       },
+      timeout: getApiConfig().timeoutMs,
+      signal,
     })
 
-    logger.log("Audio prompt response:", response.data)
-    return response.data
+    const result = parseConversationResponse(endpoint, response.data)
+    logger.log("Audio prompt response:", result)
+    return result
   } catch (error) {
     logger.error("Error sending audio prompt:", error)
-    handleApiError(error as ApiError)
-    throw error
+    throw handleApiError(endpoint, error)
   }
 }
 
 // 6. Conversation API - Clear conversation history
-export async function clearConversationHistory(userId: string): Promise<unknown> {
+export async function clearConversationHistory(
+  userId: string,
+  { signal, sessionId }: ConversationRequestOptions = {},
+): Promise<ClearHistoryResponse> {
+  const endpoint = "/conversation/clear"
   try {
-    const apiUrl = `${API_BASE_URL}/conversation/clear`
-    logger.log("Clearing conversation history at:", apiUrl)
+    logger.log("Clearing conversation history at:", apiUrl(endpoint))
 
-    const response = await axios.get(apiUrl, {
-      params: { user_id: userId },
+    const response = await axios.get(apiUrl(endpoint), {
+      params: { user_id: userId, session_id: sessionId },
+      timeout: getApiConfig().timeoutMs,
+      signal,
     })
 
-    logger.log("Conversation history cleared:", response.data.message)
-    return response.data
+    const result = parseClearHistoryResponse(endpoint, response.data)
+    logger.log("Conversation history cleared:", result.message)
+    return result
   } catch (error) {
     logger.error("Error clearing conversation history:", error)
-    handleApiError(error as ApiError)
-    throw error
+    throw handleApiError(endpoint, error)
   }
 }
 
-// 7. TTS API - Generate speech from text
-export async function generateSpeech(userId: string, text: string): Promise<ReadableStream<Uint8Array> | Blob> {
-  try {
-    const apiUrl = `${API_BASE_URL}/tts/generate`
-    logger.log("Generating speech at:", apiUrl)
+// Helper function to check whether the browser can consume a streamed response body
+function supportsStreaming(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof ReadableStream !== "undefined" &&
+    "body" in Response.prototype &&
+    !!window.MediaSource
+  )
+}
 
-    // Check if ReadableStream and required features are supported
-    if (typeof ReadableStream !== "undefined" && "body" in Response.prototype && window.MediaSource) {
-      logger.log("Using streaming approach for speech generation")
-      // Use streaming approach with proper error handling
+// 7. TTS API - Generate speech from text
+export async function generateSpeech(
+  userId: string,
+  text: string,
+  { signal, voice, language }: SpeechRequestOptions = {},
+): Promise<SpeechResponse> {
+  const endpoint = "/tts/generate"
+  const params: Record<string, string> = { text, user_id: userId }
+  if (voice) params.voice = voice
+  if (language) params.language = language
+  logger.log("Generating speech at:", apiUrl(endpoint))
+
+  // Check if ReadableStream and required features are supported
+  if (supportsStreaming()) {
+    logger.log("Using streaming approach for speech generation")
+    try {
+      let response: Response
       try {
-        const response = await fetch(
-          `${apiUrl}?text=${encodeURIComponent(text)}&user_id=${encodeURIComponent(userId)}`,
-          {
-            method: "GET",
-          },
-        )
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`)
-        }
-
-        // Check if we have a body to stream
-        if (!response.body) {
-          throw new Error("Response body is null, cannot stream")
-        }
-
-        logger.log("Speech stream started")
-        return response.body
+        response = await fetch(`${apiUrl(endpoint)}?${new URLSearchParams(params)}`, { method: "GET", signal })
       } catch (fetchError) {
-        logger.error("Fetch streaming error:", fetchError)
-        // Fall back to non-streaming approach
-        logger.log("Falling back to non-streaming approach")
-        throw fetchError
+        if (signal?.aborted) throw handleApiError(endpoint, fetchError)
+        // fetch only rejects when no response was received
+        throw new ApiNetworkError(endpoint, fetchError instanceof Error ? fetchError.message : String(fetchError), {
+          cause: fetchError,
+        })
       }
-    } else {
-      // Fallback to non-streaming approach for older browsers
-      logger.log("Using non-streaming approach for speech generation (browser compatibility)")
-      const response = await axios.get(apiUrl, {
-        params: {
-          text,
-          user_id: userId,
-        },
-        responseType: "arraybuffer",
-      })
 
-      logger.log("Speech data received (non-streaming)")
-      // Convert the arraybuffer to a blob that can be used with audio elements
-      return new Blob([response.data], { type: "audio/mpeg" })
-    }
-  } catch (error) {
-    logger.error("Error generating speech:", error)
-    handleApiError(error as ApiError)
+      if (!response.ok) {
+        throw new ApiHttpError(endpoint, response.status, await response.text().catch(() => null))
+      }
 
-    // If streaming fails, fall back to non-streaming approach
-    try {
-      logger.log("Attempting fallback to non-streaming approach after error")
-      const response = await axios.get(`${API_BASE_URL}/tts/generate`, {
-        params: {
-          text,
-          user_id: userId,
-        },
-        responseType: "arraybuffer",
-      })
+      const mimeType = parseSpeechContentType(endpoint, response.headers.get("Content-Type"))
 
-      logger.log("Fallback successful, speech data received")
-      return new Blob([response.data], { type: "audio/mpeg" })
-    } catch (fallbackError) {
-      logger.error("Fallback also failed:", fallbackError)
-      throw error // Throw the original error
+      // Check if we have a body to stream
+      if (!response.body) {
+        throw new ApiContractError(endpoint, "response body is null, cannot stream")
+      }
+
+      logger.log("Speech stream started")
+      return { type: "stream", mimeType, stream: response.body }
+    } catch (streamError) {
+      const streamApiError = handleApiError(endpoint, streamError)
+      // A cancelled request must not be retried without streaming
+      if (streamApiError instanceof ApiAbortedError) throw streamApiError
+      // Fall back to non-streaming approach
+      logger.log("Falling back to non-streaming approach")
     }
+  } else {
+    logger.log("Using non-streaming approach for speech generation (browser compatibility)")
+  }
+
+  try {
+    const response = await axios.get(apiUrl(endpoint), {
+      params,
+      responseType: "arraybuffer",
+      timeout: getApiConfig().timeoutMs,
+      signal,
+    })
+
+    const contentType = response.headers["content-type"]
+    const mimeType = parseSpeechContentType(endpoint, contentType ? String(contentType) : null)
+    logger.log("Speech data received (non-streaming)")
+    // Convert the arraybuffer to a blob that can be used with audio elements
+    return { type: "blob", mimeType, blob: new Blob([response.data], { type: mimeType }) }
+  } catch (error) {
+    logger.error("Error generating speech:", error)
+    throw handleApiError(endpoint, error)
   }
 }
@@ -0,0 +1,61 @@
+// Typed errors raised by the API client
+
+// Base class for every error thrown from utils/api.ts
+export class ApiError extends Error {
+  readonly endpoint: string
+
+  constructor(endpoint: string, message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = "ApiError"
+    this.endpoint = endpoint
+  }
+}
+
+// The server responded with a status code outside the 2xx range
+export class ApiHttpError extends ApiError {
+  readonly status: number
+  readonly data: unknown
+
+  constructor(endpoint: string, status: number, data: unknown, options?: { cause?: unknown }) {
+    super(endpoint, `Request to ${endpoint} failed with status ${status}`, options)
+    this.name = "ApiHttpError"
+    this.status = status
+    this.data = data
+  }
+}
+
+// The request was made but no response was received (offline, timeout, CORS)
+export class ApiNetworkError extends ApiError {
+  constructor(endpoint: string, message: string, options?: { cause?: unknown }) {
+    super(endpoint, `Network error calling ${endpoint}: ${message}`, options)
+    this.name = "ApiNetworkError"
+  }
+}
+
+// The request was cancelled through its AbortSignal (e.g. the user stopped or interrupted the answer)
+export class ApiAbortedError extends ApiError {
+  constructor(endpoint: string, options?: { cause?: unknown }) {
+    super(endpoint, `Request to ${endpoint} was cancelled`, options)
+    this.name = "ApiAbortedError"
+  }
+}
+
+// The server responded, but the payload does not match the expected contract
+export class ApiContractError extends ApiError {
+  readonly data: unknown
+
+  constructor(endpoint: string, message: string, data?: unknown) {
+    super(endpoint, `Unexpected response from ${endpoint}: ${message}`)
+    this.name = "ApiContractError"
+    this.data = data
+  }
+}
+
+// Whether a failed request is worth retrying later (offline, timeout or a temporary server problem)
+export function isRetryableApiError(error: unknown): boolean {
+  if (error instanceof ApiNetworkError) return true
+  if (error instanceof ApiHttpError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429
+  }
+  return false
+}
@@ -0,0 +1,153 @@
+// Response models for the Foresight backend and runtime validators for them
+import { ApiContractError } from "./apiErrors"
+
+// GET /user/create
+export interface CreateUserResponse {
+  user_id: string
+}
+
+// GET /auth/session (proxy only)
+export interface SessionResponse {
+  user_id: string
+  // Null while the session is anonymous
+  email: string | null
+}
+
+// POST /auth/sign-in (proxy only)
+export interface SignInResponse {
+  sent: boolean
+  // The sign-in link itself, only returned by the local development provider
+  preview_link?: string
+}
+
+// Kinds of scene change worth announcing in narration mode
+export type SceneChangeKind = "person" | "obstacle" | "text"
+
+export interface SceneChange {
+  kind: SceneChangeKind
+  // Short sentence to speak, e.g. "Someone is walking towards you from the left"
+  summary: string
+}
+
+// POST /vision/upload
+export interface VisionUploadResponse {
+  message?: string
+  description?: string
+  // Significant changes since the previous frame; only sent when the upload asked to narrate
+  changes?: SceneChange[]
+}
+
+// POST /conversation/text and POST /conversation/audio
+export interface ConversationResponse {
+  text: string
+  // What the backend understood the user to say (audio prompts only, when supported)
+  transcript?: string
+}
+
+// GET /vision/clear and GET /conversation/clear
+export interface ClearHistoryResponse {
+  message?: string
+}
+
+// GET /tts/generate - either a live stream (MediaSource capable browsers) or a fully buffered blob
+export type SpeechResponse =
+  | { type: "stream"; mimeType: string; stream: ReadableStream<Uint8Array> }
+  | { type: "blob"; mimeType: string; blob: Blob }
+
+// Helper to narrow unknown JSON to a plain object
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Helper to validate an optional string field
+function optionalString(endpoint: string, data: Record<string, unknown>, key: string): string | undefined {
+  const value = data[key]
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== "string") {
+    throw new ApiContractError(endpoint, `"${key}" should be a string`, data)
+  }
+  return value
+}
+
+export function parseCreateUserResponse(endpoint: string, data: unknown): CreateUserResponse {
+  if (!isRecord(data) || typeof data.user_id !== "string" || data.user_id.length === 0) {
+    throw new ApiContractError(endpoint, "missing user_id", data)
+  }
+  return { user_id: data.user_id }
+}
+
+export function parseSessionResponse(endpoint: string, data: unknown): SessionResponse {
+  const { user_id } = parseCreateUserResponse(endpoint, data)
+  const email = optionalString(endpoint, data as Record<string, unknown>, "email")
+  return { user_id, email: email ?? null }
+}
+
+export function parseSignInResponse(endpoint: string, data: unknown): SignInResponse {
+  if (!isRecord(data) || data.sent !== true) {
+    throw new ApiContractError(endpoint, "sign-in link was not sent", data)
+  }
+  return { sent: true, preview_link: optionalString(endpoint, data, "preview_link") }
+}
+
+const SCENE_CHANGE_KINDS: SceneChangeKind[] = ["person", "obstacle", "text"]
+
+// Helper to validate the optional list of scene changes. Kinds this client doesn't know are skipped
+// so the backend can add new ones without breaking older clients.
+function optionalSceneChanges(endpoint: string, data: Record<string, unknown>): SceneChange[] | undefined {
+  const value = data.changes
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value)) {
+    throw new ApiContractError(endpoint, '"changes" should be an array', data)
+  }
+  return value.flatMap((change): SceneChange[] => {
+    if (!isRecord(change) || typeof change.kind !== "string" || typeof change.summary !== "string") {
+      throw new ApiContractError(endpoint, "each change needs a kind and a summary", data)
+    }
+    const kind = change.kind as SceneChangeKind
+    const summary = change.summary.trim()
+    return SCENE_CHANGE_KINDS.includes(kind) && summary ? [{ kind, summary }] : []
+  })
+}
+
+export function parseVisionUploadResponse(endpoint: string, data: unknown): VisionUploadResponse {
+  if (!isRecord(data)) {
+    throw new ApiContractError(endpoint, "expected a JSON object", data)
+  }
+  return {
+    message: optionalString(endpoint, data, "message"),
+    description: optionalString(endpoint, data, "description"),
+    changes: optionalSceneChanges(endpoint, data),
+  }
+}
+
+export function parseConversationResponse(endpoint: string, data: unknown): ConversationResponse {
+  // Older backend builds return the answer as a bare JSON string
+  if (typeof data === "string") {
+    return { text: data }
+  }
+  if (!isRecord(data) || typeof data.text !== "string") {
+    throw new ApiContractError(endpoint, "missing text", data)
+  }
+  return { text: data.text, transcript: optionalString(endpoint, data, "transcript") }
+}
+
+export function parseClearHistoryResponse(endpoint: string, data: unknown): ClearHistoryResponse {
+  if (!isRecord(data)) {
+    throw new ApiContractError(endpoint, "expected a JSON object", data)
+  }
+  return { message: optionalString(endpoint, data, "message") }
+}
+
+// Validate the Content-Type of a TTS response and return the audio MIME type to use for playback
+export function parseSpeechContentType(endpoint: string, contentType: string | null): string {
+  const mimeType = contentType?.split(";")[0].trim().toLowerCase()
+
+  // Some deployments don't label the stream; assume the backend default
+  if (!mimeType || mimeType === "application/octet-stream") {
+    return "audio/mpeg"
+  }
+  if (!mimeType.startsWith("audio/")) {
+    throw new ApiContractError(endpoint, `expected audio but got ${mimeType}`)
+  }
+  return mimeType
+}
@@ -0,0 +1,73 @@
+// Microphone selection and input processing settings for the question recorder
+
+export interface MicProcessingSettings {
+  noiseSuppression: boolean
+  echoCancellation: boolean
+  autoGainControl: boolean
+}
+
+export type MicProcessingOption = keyof MicProcessingSettings
+
+export const MIC_PROCESSING_OPTIONS: Record<MicProcessingOption, { label: string; description: string }> = {
+  noiseSuppression: {
+    label: "Noise suppression",
+    description: "Filters steady background noise like traffic or fans",
+  },
+  echoCancellation: {
+    label: "Echo cancellation",
+    description: "Keeps Foresight's own voice out of your question",
+  },
+  autoGainControl: {
+    label: "Automatic volume",
+    description: "Evens out quiet and loud speech",
+  },
+}
+
+// Browser defaults when audio is simply requested with { audio: true }
+export const DEFAULT_MIC_PROCESSING: MicProcessingSettings = {
+  noiseSuppression: true,
+  echoCancellation: true,
+  autoGainControl: true,
+}
+
+// iOS Safari records more reliably with processing turned off
+export const IOS_MIC_PROCESSING: MicProcessingSettings = {
+  noiseSuppression: false,
+  echoCancellation: false,
+  autoGainControl: false,
+}
+
+// Key used for settings of the system default microphone
+export const DEFAULT_MIC_KEY = "default"
+
+// Settings saved for a device, falling back to the platform default
+export function resolveMicProcessing(
+  saved: Record<string, MicProcessingSettings>,
+  deviceId: string | null,
+  isIOSDevice: boolean,
+): MicProcessingSettings {
+  return saved[deviceId || DEFAULT_MIC_KEY] ?? (isIOSDevice ? IOS_MIC_PROCESSING : DEFAULT_MIC_PROCESSING)
+}
+
+// Build getUserMedia audio constraints for a device and its processing settings
+export function buildAudioConstraints(deviceId: string | null, processing: MicProcessingSettings): MediaTrackConstraints {
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    noiseSuppression: processing.noiseSuppression,
+    echoCancellation: processing.echoCancellation,
+    autoGainControl: processing.autoGainControl,
+  }
+}
+
+// Which processing options this browser lets us control
+export function getSupportedMicProcessing(): Record<MicProcessingOption, boolean> {
+  const supported =
+    typeof navigator !== "undefined" && navigator.mediaDevices?.getSupportedConstraints
+      ? navigator.mediaDevices.getSupportedConstraints()
+      : {}
+  return {
+    noiseSuppression: !!supported.noiseSuppression,
+    echoCancellation: !!supported.echoCancellation,
+    autoGainControl: !!supported.autoGainControl,
+  }
+}
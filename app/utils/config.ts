@@ -0,0 +1,88 @@
+// Client configuration resolved from build-time environment and runtime overrides
+
+// Default to the same-origin proxy routes (app/api), which talk to the backend on the server
+const DEFAULT_API_BASE_URL = "/api"
+
+// Default request timeout for JSON endpoints (TTS streams are not limited)
+const DEFAULT_TIMEOUT_MS = 30000
+
+// How frames are sent to /vision/upload: base64 inside JSON, or raw bytes in multipart/form-data
+export type VisionUploadTransport = "json" | "multipart"
+
+export interface ApiConfig {
+  baseUrl: string
+  timeoutMs: number
+  visionUploadTransport: VisionUploadTransport
+}
+
+// Shape of the optional config object a deployment can inject before the app loads,
+// e.g. <script>window.__FORESIGHT_CONFIG__ = { apiBaseUrl: "https://staging.example.com/api" }</script>
+interface RuntimeConfig {
+  apiBaseUrl?: string
+  apiTimeoutMs?: number
+  visionUploadTransport?: VisionUploadTransport
+}
+
+declare global {
+  interface Window {
+    __FORESIGHT_CONFIG__?: RuntimeConfig
+  }
+}
+
+// Overrides set programmatically via configureApi()
+let overrides: Partial<ApiConfig> = {}
+
+// Helper function to read the injected runtime config, if any
+function getRuntimeConfig(): RuntimeConfig {
+  if (typeof window === "undefined") return {}
+  return window.__FORESIGHT_CONFIG__ ?? {}
+}
+
+// Helper function to parse a positive integer from an environment string
+function parsePositiveInt(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const parsed = Number.parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+// Helper function to validate the upload transport setting
+function parseTransport(value: string | undefined): VisionUploadTransport | undefined {
+  return value === "json" || value === "multipart" ? value : undefined
+}
+
+// Strip trailing slashes so paths can always be appended with a leading "/"
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "")
+}
+
+// Resolve the active API configuration.
+// Precedence: configureApi() > window.__FORESIGHT_CONFIG__ > NEXT_PUBLIC_* env > defaults
+export function getApiConfig(): ApiConfig {
+  const runtime = getRuntimeConfig()
+
+  const baseUrl =
+    overrides.baseUrl ?? runtime.apiBaseUrl ?? process.env.NEXT_PUBLIC_API_BASE_URL ?? DEFAULT_API_BASE_URL
+
+  const timeoutMs =
+    overrides.timeoutMs ??
+    runtime.apiTimeoutMs ??
+    parsePositiveInt(process.env.NEXT_PUBLIC_API_TIMEOUT_MS) ??
+    DEFAULT_TIMEOUT_MS
+
+  const visionUploadTransport =
+    overrides.visionUploadTransport ??
+    runtime.visionUploadTransport ??
+    parseTransport(process.env.NEXT_PUBLIC_VISION_UPLOAD_TRANSPORT) ??
+    "json"
+
+  return {
+    baseUrl: normalizeBaseUrl(baseUrl),
+    timeoutMs,
+    visionUploadTransport,
+  }
+}
+
+// Override configuration at runtime (e.g. from a debug panel)
+export function configureApi(config: Partial<ApiConfig>): void {
+  overrides = { ...overrides, ...config }
+}
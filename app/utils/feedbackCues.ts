@@ -0,0 +1,117 @@
+// Non-visual cues for the recording lifecycle: short synthesized tones (earcons) and vibration patterns
+import { createAudioContext } from "./voiceActivity"
+
+export type FeedbackEvent = "recording-start" | "recording-stop" | "processing" | "answer-ready" | "error"
+
+export interface FeedbackChannels {
+  sound: boolean
+  vibration: boolean
+}
+
+export type FeedbackPreferences = Record<FeedbackEvent, FeedbackChannels>
+
+// In the order they happen, as listed in the settings
+export const FEEDBACK_EVENTS: { value: FeedbackEvent; label: string }[] = [
+  { value: "recording-start", label: "Recording starts" },
+  { value: "recording-stop", label: "Recording stops" },
+  { value: "processing", label: "Processing" },
+  { value: "answer-ready", label: "Answer ready" },
+  { value: "error", label: "Error" },
+]
+
+export const DEFAULT_FEEDBACK_PREFERENCES: FeedbackPreferences = {
+  "recording-start": { sound: true, vibration: true },
+  "recording-stop": { sound: true, vibration: true },
+  processing: { sound: true, vibration: true },
+  "answer-ready": { sound: true, vibration: true },
+  error: { sound: true, vibration: true },
+}
+
+interface Tone {
+  from: number // Hz
+  to?: number // Hz to glide to, if any
+  duration: number // seconds
+}
+
+// Distinct shapes so the cues can be told apart without seeing the screen
+const EARCONS: Record<FeedbackEvent, Tone[]> = {
+  "recording-start": [{ from: 660, to: 880, duration: 0.15 }], // rising
+  "recording-stop": [{ from: 880, to: 660, duration: 0.15 }], // falling
+  processing: [{ from: 520, duration: 0.08 }], // soft tick
+  "answer-ready": [
+    { from: 784, duration: 0.1 },
+    { from: 1047, duration: 0.16 },
+  ], // two-note chime
+  error: [
+    { from: 330, duration: 0.14 },
+    { from: 247, duration: 0.22 },
+  ], // low descending pair
+}
+
+// Vibration patterns in ms (vibrate, pause, vibrate...)
+const VIBRATION_PATTERNS: Record<FeedbackEvent, number[]> = {
+  "recording-start": [40],
+  "recording-stop": [20, 60, 20],
+  processing: [15],
+  "answer-ready": [30, 50, 30, 50, 30],
+  error: [120, 80, 120],
+}
+
+// Peak gain of a tone at full volume, quieter than speech
+const EARCON_GAIN = 0.15
+// Silence between the notes of one earcon
+const NOTE_GAP = 0.03
+
+// One shared context; browsers limit how many can be open
+let audioContext: AudioContext | null = null
+// When the last scheduled earcon finishes, so cues that fire together play in turn instead of overlapping
+let busyUntil = 0
+
+function getAudioContext(): AudioContext | null {
+  if (!audioContext) audioContext = createAudioContext()
+  // Contexts can start (or be put back) in the suspended state until there has been a user gesture
+  if (audioContext?.state === "suspended") audioContext.resume().catch(() => {})
+  return audioContext
+}
+
+// Play an event's earcon; volume (0-1) follows the spoken answer volume
+export function playEarcon(event: FeedbackEvent, volume = 1) {
+  const context = getAudioContext()
+  if (!context || volume <= 0) return
+
+  let start = Math.max(context.currentTime, busyUntil)
+  for (const tone of EARCONS[event]) {
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+
+    oscillator.frequency.setValueAtTime(tone.from, start)
+    if (tone.to) oscillator.frequency.linearRampToValueAtTime(tone.to, start + tone.duration * 0.8)
+    gain.gain.setValueAtTime(0.0001, start)
+    gain.gain.exponentialRampToValueAtTime(EARCON_GAIN * Math.min(1, volume), start + 0.02)
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + tone.duration)
+
+    oscillator.connect(gain)
+    gain.connect(context.destination)
+    oscillator.start(start)
+    oscillator.stop(start + tone.duration + 0.01)
+    start += tone.duration + NOTE_GAP
+  }
+  busyUntil = start
+}
+
+// Vibrate with an event's pattern where supported (not on iOS Safari or most desktops)
+export function vibrateFor(event: FeedbackEvent) {
+  if (typeof navigator === "undefined" || typeof navigator.vibrate !== "function") return
+  try {
+    navigator.vibrate(VIBRATION_PATTERNS[event])
+  } catch {
+    // Some browsers throw instead of ignoring calls made without a user gesture
+  }
+}
+
+// Signal an event on whichever channels are turned on for it
+export function playFeedback(event: FeedbackEvent, preferences: FeedbackPreferences, volume = 1) {
+  const channels = preferences[event] ?? DEFAULT_FEEDBACK_PREFERENCES[event]
+  if (channels.sound) playEarcon(event, volume)
+  if (channels.vibration) vibrateFor(event)
+}
@@ -0,0 +1,190 @@
+// Client-side check of whether a camera frame is worth analyzing: lighting, sharpness and, when reading text,
+// whether the text is framed. Users who can't see the preview otherwise send blurry, dark or cut-off images.
+
+export type FrameIssue =
+  | "too-dark"
+  | "too-bright"
+  | "moving" // blurred by camera or subject motion
+  | "out-of-focus" // blurred while still, usually too close to the subject
+  // Text mode only
+  | "no-text"
+  | "text-cut-off"
+  | "text-too-small"
+
+export interface FrameQuality {
+  brightness: number // Mean luminance, 0-1
+  contrast: number // Luminance standard deviation, 0-255
+  sharpness: number // Variance of the Laplacian; low means blurry
+  motion: number // Mean luminance change since the previous analysis, 0-1
+  issue: FrameIssue | null // The most important problem, if any
+}
+
+export interface FrameQualityAnalyzer {
+  // document: also check that text fills the view without being cut off (text mode)
+  analyze: (video: HTMLVideoElement, options?: { document?: boolean }) => FrameQuality | null
+}
+
+// What to tell the user for each issue
+export const FRAME_GUIDANCE: Record<FrameIssue, string> = {
+  "too-dark": "Too dark. Try turning on a light.",
+  "too-bright": "Too bright. Try turning away from the light.",
+  moving: "Hold still.",
+  "out-of-focus": "Blurry. Move back a little or wipe the lens.",
+  "no-text": "No text in view. Point the camera at the text.",
+  "text-cut-off": "Text is cut off. Move back.",
+  "text-too-small": "Text is too small. Move closer.",
+}
+
+// Width of the downscaled frame that is analyzed; enough to see the edges of print
+const SAMPLE_WIDTH = 240
+
+const MIN_BRIGHTNESS = 0.15
+const MAX_BRIGHTNESS = 0.88
+// Below this Laplacian variance the frame is blurry
+const MIN_SHARPNESS = 25
+// Flat scenes (a blank wall, a dark room) have little detail either way, so blur can't be judged
+const MIN_CONTRAST_FOR_SHARPNESS = 12
+// Change since the previous analysis above which blur is put down to movement
+const MOTION_THRESHOLD = 0.06
+
+// Sobel gradient magnitude above which a pixel counts as an edge (strokes of print are high contrast)
+const EDGE_THRESHOLD = 90
+// Share of edge pixels below which there's no text to read
+const MIN_EDGE_FRACTION = 0.01
+// Text taking up less than this share of the view is too small to read
+const MIN_TEXT_AREA = 0.08
+// Text this close to opposite borders probably continues beyond them
+const BORDER_MARGIN = 0.05
+
+// Helper to read grayscale pixels of the current video frame at SAMPLE_WIDTH
+function createGraySampler() {
+  let canvas: HTMLCanvasElement | null = null
+  let context: CanvasRenderingContext2D | null = null
+
+  return (video: HTMLVideoElement) => {
+    if (video.readyState < 2 || video.videoWidth === 0) return null
+
+    const width = SAMPLE_WIDTH
+    const height = Math.max(1, Math.round((SAMPLE_WIDTH * video.videoHeight) / video.videoWidth))
+    if (!canvas) {
+      canvas = document.createElement("canvas")
+      context = canvas.getContext("2d", { willReadFrequently: true })
+    }
+    if (!context) return null
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width
+      canvas.height = height
+    }
+
+    context.drawImage(video, 0, 0, width, height)
+    const { data } = context.getImageData(0, 0, width, height)
+    const gray = new Float32Array(width * height)
+    for (let i = 0; i < gray.length; i++) {
+      const offset = i * 4
+      gray[i] = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]
+    }
+    return { gray, width, height }
+  }
+}
+
+// Variance of the 4-neighbour Laplacian, the usual focus measure: sharp edges give a wide spread of values
+function laplacianVariance(gray: Float32Array, width: number, height: number): number {
+  let sum = 0
+  let sumSquares = 0
+  let count = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i]
+      sum += value
+      sumSquares += value * value
+      count++
+    }
+  }
+  if (count === 0) return 0
+  const mean = sum / count
+  return sumSquares / count - mean * mean
+}
+
+// Helper to pick the value at a fraction of the way through sorted values
+function percentile(sorted: number[], fraction: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))]
+}
+
+// Finds where the text (dense high-contrast edges) sits in the frame and whether it is framed well
+function checkDocumentFraming(gray: Float32Array, width: number, height: number): FrameIssue | null {
+  const xs: number[] = []
+  const ys: number[] = []
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const gx =
+        gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1]
+      const gy =
+        gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1]
+      if (Math.hypot(gx, gy) > EDGE_THRESHOLD) {
+        xs.push(x)
+        ys.push(y)
+      }
+    }
+  }
+  if (xs.length < MIN_EDGE_FRACTION * width * height) return "no-text"
+
+  // Percentiles rather than extremes, so a few stray edges (a table edge, a shadow) don't stretch the box
+  xs.sort((a, b) => a - b)
+  ys.sort((a, b) => a - b)
+  const left = percentile(xs, 0.02) / width
+  const right = percentile(xs, 0.98) / width
+  const top = percentile(ys, 0.02) / height
+  const bottom = percentile(ys, 0.98) / height
+
+  const spansWidth = left <= BORDER_MARGIN && right >= 1 - BORDER_MARGIN
+  const spansHeight = top <= BORDER_MARGIN && bottom >= 1 - BORDER_MARGIN
+  if (spansWidth || spansHeight) return "text-cut-off"
+  if ((right - left) * (bottom - top) < MIN_TEXT_AREA) return "text-too-small"
+  return null
+}
+
+export function createFrameQualityAnalyzer(): FrameQualityAnalyzer {
+  const sample = createGraySampler()
+  let previous: Float32Array | null = null
+
+  return {
+    analyze: (video, options = {}) => {
+      const frame = sample(video)
+      if (!frame) return null
+      const { gray, width, height } = frame
+
+      let sum = 0
+      let sumSquares = 0
+      for (let i = 0; i < gray.length; i++) {
+        sum += gray[i]
+        sumSquares += gray[i] * gray[i]
+      }
+      const mean = sum / gray.length
+      const contrast = Math.sqrt(Math.max(0, sumSquares / gray.length - mean * mean))
+      const brightness = mean / 255
+      const sharpness = laplacianVariance(gray, width, height)
+
+      let motion = 0
+      if (previous && previous.length === gray.length) {
+        let change = 0
+        for (let i = 0; i < gray.length; i++) change += Math.abs(gray[i] - previous[i])
+        motion = change / gray.length / 255
+      }
+      previous = gray
+
+      // Most fundamental first: nothing else can be judged in the dark
+      let issue: FrameIssue | null = null
+      if (brightness < MIN_BRIGHTNESS) issue = "too-dark"
+      else if (brightness > MAX_BRIGHTNESS) issue = "too-bright"
+      else if (contrast >= MIN_CONTRAST_FOR_SHARPNESS && sharpness < MIN_SHARPNESS) {
+        issue = motion > MOTION_THRESHOLD ? "moving" : "out-of-focus"
+      } else if (options.document) issue = checkDocumentFraming(gray, width, height)
+
+      return { brightness, contrast, sharpness, motion, issue }
+    },
+  }
+}
@@ -0,0 +1,184 @@
+// Adaptive scheduler for vision frame uploads.
+//
+// Replaces a fixed setInterval: uploads never overlap, failures back off exponentially,
+// near-identical or unusable frames are skipped, and motion shortens the interval.
+import type { FrameIssue } from "./frameQuality"
+
+export interface FrameSchedulerOptions {
+  // Video element to sample for change detection
+  getVideo: () => HTMLVideoElement | null
+  // Capture and upload the current frame; should throw on failure
+  uploadFrame: () => Promise<void>
+  // Notified after every tick so callers can update status / logs
+  onTick?: (event: FrameSchedulerEvent) => void
+  // Why the current frame isn't worth uploading (too dark, blurry...), or null when it is
+  checkQuality?: (video: HTMLVideoElement) => FrameIssue | null
+
+  // Interval when the scene is changing normally
+  baseIntervalMs?: number
+  // Interval while significant motion is detected
+  motionIntervalMs?: number
+  // Upload at least this often even if nothing changed, to keep backend context alive
+  maxIdleMs?: number
+  // Upload a poor frame anyway after rejecting frames for this long, so the backend's view isn't stale
+  maxRejectedMs?: number
+  // Upper bound for failure backoff
+  maxBackoffMs?: number
+  // Mean luminance difference (0-1) below which a frame counts as unchanged
+  stillThreshold?: number
+  // Mean luminance difference (0-1) between ticks above which the scene counts as moving
+  motionThreshold?: number
+}
+
+export type FrameSchedulerEvent =
+  | { type: "uploaded"; change: number | null; nextDelayMs: number }
+  | { type: "skipped"; change: number; nextDelayMs: number }
+  | { type: "rejected"; issue: FrameIssue; nextDelayMs: number }
+  | { type: "failed"; error: unknown; failures: number; nextDelayMs: number }
+
+export interface FrameScheduler {
+  start: () => void
+  stop: () => void
+}
+
+const DEFAULTS = {
+  baseIntervalMs: 3333,
+  motionIntervalMs: 1500,
+  maxIdleMs: 15000,
+  maxRejectedMs: 30000,
+  maxBackoffMs: 30000,
+  stillThreshold: 0.02,
+  motionThreshold: 0.08,
+}
+
+// Size of the downscaled frame used for pixel diffs
+const SAMPLE_WIDTH = 32
+const SAMPLE_HEIGHT = 18
+
+// Draws video frames onto a tiny canvas and returns their luminance values
+export function createFrameSampler() {
+  let canvas: HTMLCanvasElement | null = null
+  let context: CanvasRenderingContext2D | null = null
+
+  return (video: HTMLVideoElement): Float32Array | null => {
+    if (video.readyState < 2 || video.videoWidth === 0) return null
+
+    if (!canvas) {
+      canvas = document.createElement("canvas")
+      canvas.width = SAMPLE_WIDTH
+      canvas.height = SAMPLE_HEIGHT
+      context = canvas.getContext("2d", { willReadFrequently: true })
+    }
+    if (!context) return null
+
+    context.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT)
+    const { data } = context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT)
+
+    const luminance = new Float32Array(SAMPLE_WIDTH * SAMPLE_HEIGHT)
+    for (let i = 0; i < luminance.length; i++) {
+      const offset = i * 4
+      luminance[i] = (0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]) / 255
+    }
+    return luminance
+  }
+}
+
+// Mean absolute difference between two luminance samples (0 = identical, 1 = inverted)
+export function frameDifference(a: Float32Array, b: Float32Array): number {
+  let total = 0
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i])
+  }
+  return total / a.length
+}
+
+export function createFrameScheduler(options: FrameSchedulerOptions): FrameScheduler {
+  const settings = { ...DEFAULTS, ...options }
+  const sample = createFrameSampler()
+
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let running = false
+  // Incremented on every start/stop so a tick from a previous run can't schedule more work
+  let generation = 0
+  let failures = 0
+  let lastUploadAt = 0
+  let lastUploadedSample: Float32Array | null = null
+  let previousSample: Float32Array | null = null
+  // When the current run of rejected frames began
+  let rejectingSince: number | null = null
+
+  const schedule = (run: number, delayMs: number) => {
+    if (!running || run !== generation) return
+    timer = setTimeout(() => tick(run), delayMs)
+  }
+
+  const tick = async (run: number) => {
+    timer = null
+    if (!running || run !== generation) return
+
+    const video = settings.getVideo()
+    const current = video ? sample(video) : null
+
+    // How much the scene moved since the last tick, and since the last frame we sent
+    const motion = current && previousSample ? frameDifference(current, previousSample) : 0
+    const change = current && lastUploadedSample ? frameDifference(current, lastUploadedSample) : null
+    previousSample = current
+
+    const nextInterval = motion >= settings.motionThreshold ? settings.motionIntervalMs : settings.baseIntervalMs
+    const idleFor = Date.now() - lastUploadAt
+
+    if (change !== null && change < settings.stillThreshold && idleFor < settings.maxIdleMs) {
+      settings.onTick?.({ type: "skipped", change, nextDelayMs: nextInterval })
+      schedule(run, nextInterval)
+      return
+    }
+
+    const issue = video && settings.checkQuality ? settings.checkQuality(video) : null
+    if (!issue) {
+      rejectingSince = null
+    } else {
+      rejectingSince ??= Date.now()
+      if (Date.now() - rejectingSince < settings.maxRejectedMs) {
+        // Check again soon, since the user is likely adjusting the camera
+        settings.onTick?.({ type: "rejected", issue, nextDelayMs: settings.motionIntervalMs })
+        schedule(run, settings.motionIntervalMs)
+        return
+      }
+    }
+
+    try {
+      await settings.uploadFrame()
+      if (run !== generation) return
+      failures = 0
+      lastUploadAt = Date.now()
+      lastUploadedSample = current
+      rejectingSince = null
+      settings.onTick?.({ type: "uploaded", change, nextDelayMs: nextInterval })
+      schedule(run, nextInterval)
+    } catch (error) {
+      if (run !== generation) return
+      failures += 1
+      const backoff = Math.min(settings.maxBackoffMs, settings.baseIntervalMs * 2 ** failures)
+      settings.onTick?.({ type: "failed", error, failures, nextDelayMs: backoff })
+      schedule(run, backoff)
+    }
+  }
+
+  return {
+    start: () => {
+      if (running) return
+      running = true
+      generation += 1
+      // First frame goes out promptly so the backend has context right away
+      schedule(generation, 0)
+    },
+    stop: () => {
+      running = false
+      generation += 1
+      if (timer) {
+        clearTimeout(timer)
+        timer = null
+      }
+    },
+  }
+}
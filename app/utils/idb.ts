@@ -0,0 +1,82 @@
+// Minimal promise wrapper around IndexedDB for the app's local database
+
+const DB_NAME = "foresight"
+const DB_VERSION = 2
+
+// Object store names
+export const OUTBOX_STORE = "outbox"
+export const AUDIO_STORE = "audio"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+// Create or migrate object stores; each version only adds what it introduced
+function upgradeDatabase(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: "id" })
+    outbox.createIndex("createdAt", "createdAt")
+  }
+  if (oldVersion < 2) {
+    const audio = db.createObjectStore(AUDIO_STORE, { keyPath: "messageId" })
+    audio.createIndex("lastUsedAt", "lastUsedAt")
+  }
+}
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined"
+}
+
+// Open (once) the app database
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!isIndexedDbAvailable()) {
+        reject(new Error("IndexedDB is not available"))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion)
+      request.onsuccess = () => {
+        const db = request.result
+        // Another tab upgraded the schema; reopen on next use
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => reject(new Error("Database upgrade blocked by another tab"))
+    })
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+// Helper function to turn an IDBRequest into a promise
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Run work inside a transaction and resolve once it has committed
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, mode)
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"))
+  })
+  const result = await work(transaction.objectStore(storeName))
+  await committed
+  return result
+}
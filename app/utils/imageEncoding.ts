@@ -0,0 +1,139 @@
+// Encoding pipeline for vision uploads: resize, pick format and quality to fit a per-frame byte budget
+
+export type ImageQualityPreset = "data-saver" | "balanced" | "high-detail"
+
+export interface EncodingPolicy {
+  // Longest edge of the uploaded image in pixels (frames are never upscaled)
+  maxDimension: number
+  // Target size of a single encoded frame
+  budgetBytes: number
+  minQuality: number
+  maxQuality: number
+}
+
+export interface EncodedFrame {
+  blob: Blob
+  mimeType: string
+  width: number
+  height: number
+  quality: number
+}
+
+export const IMAGE_QUALITY_PRESETS: Record<ImageQualityPreset, EncodingPolicy & { label: string; description: string }> = {
+  "data-saver": {
+    label: "Data saver",
+    description: "Smaller frames for cellular connections",
+    maxDimension: 640,
+    budgetBytes: 35 * 1024,
+    minQuality: 0.4,
+    maxQuality: 0.7,
+  },
+  balanced: {
+    label: "Balanced",
+    description: "Good detail at moderate bandwidth",
+    maxDimension: 960,
+    budgetBytes: 90 * 1024,
+    minQuality: 0.5,
+    maxQuality: 0.8,
+  },
+  "high-detail": {
+    label: "High detail",
+    description: "Full resolution for reading small text",
+    maxDimension: 1920,
+    budgetBytes: 350 * 1024,
+    minQuality: 0.6,
+    maxQuality: 0.92,
+  },
+}
+
+// Step used when lowering quality to fit the budget
+const QUALITY_STEP = 0.1
+// Maximum encode attempts per frame so a slow device doesn't stall the upload loop
+const MAX_ATTEMPTS = 3
+
+// Minimal typing for the Network Information API (not in lib.dom for all browsers)
+interface NetworkInformationLike {
+  saveData?: boolean
+  effectiveType?: string
+}
+
+// Shrink the budget on slow connections or when the browser asks to save data
+function adjustBudget(budgetBytes: number): number {
+  if (typeof navigator === "undefined") return budgetBytes
+  const connection = (navigator as Navigator & { connection?: NetworkInformationLike }).connection
+  if (!connection) return budgetBytes
+  if (connection.saveData || connection.effectiveType === "slow-2g" || connection.effectiveType === "2g") {
+    return Math.round(budgetBytes * 0.5)
+  }
+  if (connection.effectiveType === "3g") {
+    return Math.round(budgetBytes * 0.75)
+  }
+  return budgetBytes
+}
+
+// Helper function to promisify canvas.toBlob
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, mimeType, quality))
+}
+
+// WebP is smaller than JPEG at equal quality, but Safari only gained encoding support recently
+let webpSupported: boolean | null = null
+function supportsWebp(): boolean {
+  if (webpSupported === null) {
+    const probe = document.createElement("canvas")
+    probe.width = probe.height = 1
+    webpSupported = probe.toDataURL("image/webp").startsWith("data:image/webp")
+  }
+  return webpSupported
+}
+
+// Creates an encoder that reuses its canvas and remembers the last quality that fit the budget,
+// so consecutive frames usually encode in a single pass
+export function createFrameEncoder() {
+  let canvas: HTMLCanvasElement | null = null
+  let lastQuality: number | null = null
+  let lastPolicy: EncodingPolicy | null = null
+
+  return async (source: HTMLVideoElement, policy: EncodingPolicy): Promise<EncodedFrame | null> => {
+    const sourceWidth = source.videoWidth
+    const sourceHeight = source.videoHeight
+    if (!sourceWidth || !sourceHeight) return null
+
+    if (policy !== lastPolicy) {
+      lastPolicy = policy
+      lastQuality = null
+    }
+
+    const scale = Math.min(1, policy.maxDimension / Math.max(sourceWidth, sourceHeight))
+    const width = Math.round(sourceWidth * scale)
+    const height = Math.round(sourceHeight * scale)
+
+    if (!canvas) {
+      canvas = document.createElement("canvas")
+    }
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext("2d")
+    if (!context) return null
+    context.drawImage(source, 0, 0, width, height)
+
+    const mimeType = supportsWebp() ? "image/webp" : "image/jpeg"
+    const budget = adjustBudget(policy.budgetBytes)
+
+    let quality = lastQuality ?? policy.maxQuality
+    let blob: Blob | null = null
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      blob = await canvasToBlob(canvas, mimeType, quality)
+      if (!blob || blob.size <= budget || quality <= policy.minQuality) break
+      quality = Math.max(policy.minQuality, quality - QUALITY_STEP)
+    }
+    if (!blob) return null
+
+    // Creep back up when there is headroom so quality recovers after a busy scene
+    lastQuality =
+      blob.size < budget * 0.6 ? Math.min(policy.maxQuality, quality + QUALITY_STEP / 2) : quality
+
+    // Some browsers silently fall back to PNG for unsupported types; report what we actually got
+    return { blob, mimeType: blob.type || mimeType, width, height, quality }
+  }
+}
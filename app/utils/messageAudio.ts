@@ -0,0 +1,117 @@
+// Audio attached to chat messages (spoken answers and recorded questions), kept in IndexedDB keyed by
+// message id so replay survives reloads. Object URLs are created on demand and revoked once unused.
+import { AUDIO_STORE, requestToPromise, withStore } from "./idb"
+
+interface AudioRecord {
+  messageId: string
+  blob: Blob
+  size: number
+  createdAt: number
+  lastUsedAt: number
+}
+
+// Simple logger object
+const logger = {
+  log: (...args: unknown[]) => {
+    console.log("[messageAudio.ts]", ...args)
+  },
+  error: (...args: unknown[]) => {
+    console.error("[messageAudio.ts]", ...args)
+  },
+}
+
+// Total size of stored audio; the least recently used recordings are evicted beyond this
+export const AUDIO_STORAGE_QUOTA_BYTES = 50 * 1024 * 1024
+
+// Delete least recently used audio until the total fits the quota, never the recording just saved
+async function evictOverQuota(store: IDBObjectStore, keepId: string): Promise<void> {
+  const records = await requestToPromise(store.index("lastUsedAt").getAll() as IDBRequest<AudioRecord[]>)
+  let total = records.reduce((sum, record) => sum + record.size, 0)
+  for (const record of records) {
+    if (total <= AUDIO_STORAGE_QUOTA_BYTES) break
+    if (record.messageId === keepId) continue
+    await requestToPromise(store.delete(record.messageId))
+    total -= record.size
+    logger.log(`Evicted audio for ${record.messageId}`)
+  }
+}
+
+// Store audio for a message. Returns false if it is too large to keep at all.
+export async function saveMessageAudio(messageId: string, blob: Blob): Promise<boolean> {
+  if (blob.size > AUDIO_STORAGE_QUOTA_BYTES) {
+    logger.log(`Audio for ${messageId} exceeds the storage quota, not stored`)
+    return false
+  }
+
+  const now = Date.now()
+  const record: AudioRecord = { messageId, blob, size: blob.size, createdAt: now, lastUsedAt: now }
+  await withStore(AUDIO_STORE, "readwrite", async (store) => {
+    await requestToPromise(store.put(record))
+    await evictOverQuota(store, messageId)
+  })
+  return true
+}
+
+// The audio for a message, or null if there never was any or it has been evicted.
+// Loading counts as a use for eviction.
+export async function loadMessageAudio(messageId: string): Promise<Blob | null> {
+  return withStore(AUDIO_STORE, "readwrite", async (store) => {
+    const record = await requestToPromise(store.get(messageId) as IDBRequest<AudioRecord | undefined>)
+    if (!record) return null
+    await requestToPromise(store.put({ ...record, lastUsedAt: Date.now() }))
+    return record.blob
+  })
+}
+
+export async function deleteMessageAudio(messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) return
+  await withStore(AUDIO_STORE, "readwrite", async (store) => {
+    for (const messageId of messageIds) {
+      await requestToPromise(store.delete(messageId))
+    }
+  })
+}
+
+// Remove audio whose message no longer exists (e.g. deleted while the database was unavailable)
+export async function pruneMessageAudio(existingMessageIds: Set<string>): Promise<void> {
+  const storedIds = await withStore(AUDIO_STORE, "readonly", (store) =>
+    requestToPromise(store.getAllKeys() as IDBRequest<string[]>),
+  )
+  const orphanIds = storedIds.filter((messageId) => !existingMessageIds.has(messageId))
+  if (orphanIds.length > 0) {
+    logger.log(`Pruning audio for ${orphanIds.length} deleted messages`)
+    await deleteMessageAudio(orphanIds)
+  }
+}
+
+// Object URLs shared by everything showing or playing a message's audio, revoked when the last user releases them
+const objectUrls = new Map<string, { url: Promise<string | null>; refs: number }>()
+
+// Get an object URL for a message's audio (null if none is stored). Pair every call with releaseAudioUrl.
+export function acquireAudioUrl(messageId: string): Promise<string | null> {
+  let entry = objectUrls.get(messageId)
+  if (!entry) {
+    const url = loadMessageAudio(messageId)
+      .then((blob) => (blob ? URL.createObjectURL(blob) : null))
+      .catch((error) => {
+        logger.error(`Could not load audio for ${messageId}:`, error)
+        return null
+      })
+    entry = { url, refs: 0 }
+    objectUrls.set(messageId, entry)
+  }
+  entry.refs += 1
+  return entry.url
+}
+
+export function releaseAudioUrl(messageId: string) {
+  const entry = objectUrls.get(messageId)
+  if (!entry) return
+  entry.refs -= 1
+  if (entry.refs > 0) return
+
+  objectUrls.delete(messageId)
+  entry.url.then((url) => {
+    if (url) URL.revokeObjectURL(url)
+  })
+}
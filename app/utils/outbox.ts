@@ -0,0 +1,225 @@
+// Persistent outbox for questions and frames that couldn't reach the backend.
+// Items survive reloads in IndexedDB and are retried with backoff once the connection returns.
+import { OUTBOX_STORE, requestToPromise, withStore } from "./idb"
+
+export type OutboxItem =
+  | (OutboxItemBase & { kind: "text"; text: string })
+  | (OutboxItemBase & { kind: "audio"; audio: Blob })
+  | (OutboxItemBase & { kind: "frame"; image: Blob })
+
+interface OutboxItemBase {
+  id: string
+  userId: string
+  // Chat message the question belongs to (questions only)
+  messageId?: string
+  createdAt: number
+  attempts: number
+  nextAttemptAt: number
+}
+
+// Simple logger object
+const logger = {
+  log: (...args: unknown[]) => {
+    console.log("[outbox.ts]", ...args)
+  },
+  error: (...args: unknown[]) => {
+    console.error("[outbox.ts]", ...args)
+  },
+}
+
+// Only the most recent frame is worth sending; it replaces any older queued frame
+const LATEST_FRAME_ID = "latest-frame"
+
+// Give up on a question after this many failed deliveries
+export const MAX_OUTBOX_ATTEMPTS = 6
+// A queued frame older than this no longer describes what's in front of the user
+export const MAX_FRAME_AGE_MS = 2 * 60 * 1000
+
+const BASE_RETRY_DELAY_MS = 5000
+// How soon a deferred item is looked at again
+const DEFER_DELAY_MS = 2000
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000
+
+// Exponential backoff with a little jitter so several tabs don't retry in lockstep
+export function nextRetryDelay(attempts: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1))
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
+
+export async function queueQuestion(
+  userId: string,
+  messageId: string,
+  question: { kind: "text"; text: string } | { kind: "audio"; audio: Blob },
+): Promise<void> {
+  const now = Date.now()
+  const item: OutboxItem = {
+    ...question,
+    id: messageId,
+    userId,
+    messageId,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  }
+  await withStore(OUTBOX_STORE, "readwrite", (store) => requestToPromise(store.put(item)))
+}
+
+export async function queueLatestFrame(userId: string, image: Blob): Promise<void> {
+  const now = Date.now()
+  const item: OutboxItem = {
+    kind: "frame",
+    image,
+    id: LATEST_FRAME_ID,
+    userId,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  }
+  await withStore(OUTBOX_STORE, "readwrite", (store) => requestToPromise(store.put(item)))
+}
+
+// All queued items, oldest first
+export async function listOutbox(): Promise<OutboxItem[]> {
+  return withStore(OUTBOX_STORE, "readonly", (store) =>
+    requestToPromise(store.index("createdAt").getAll() as IDBRequest<OutboxItem[]>),
+  )
+}
+
+export async function removeFromOutbox(id: string): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => requestToPromise(store.delete(id)))
+}
+
+// Drop everything queued (e.g. on sign-out)
+export async function clearOutbox(): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => requestToPromise(store.clear()))
+}
+
+// Record a failed delivery and schedule the next attempt
+export async function recordOutboxFailure(item: OutboxItem): Promise<OutboxItem> {
+  const attempts = item.attempts + 1
+  const updated: OutboxItem = { ...item, attempts, nextAttemptAt: Date.now() + nextRetryDelay(attempts) }
+  await withStore(OUTBOX_STORE, "readwrite", (store) => requestToPromise(store.put(updated)))
+  return updated
+}
+
+export type OutboxOutcome = "sent" | "failed" | "dropped"
+
+export interface OutboxHandlers {
+  // Send one item; throw if it couldn't be delivered
+  deliver: (item: OutboxItem) => Promise<void>
+  // Whether a delivery error is worth retrying later
+  isRetryable: (error: unknown) => boolean
+  // Return true to discard an item without sending it (e.g. its chat message was deleted)
+  shouldDrop?: (item: OutboxItem) => boolean
+  // Return true to hold an item back for now without counting an attempt (e.g. the user is mid-question)
+  shouldDefer?: (item: OutboxItem) => boolean
+  onSettled?: (item: OutboxItem, outcome: OutboxOutcome) => void
+}
+
+let handlers: OutboxHandlers | null = null
+let processing = false
+// Set when a flush is requested while one is running; that flush runs again once it's done
+let rerunRequested = false
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+// When a live frame upload last succeeded; queued frames from before then are out of date
+let lastLiveFrameAt = 0
+
+// A live frame reached the backend, so the queued one would only overwrite fresher context
+export function markLiveFrameDelivered() {
+  lastLiveFrameAt = Date.now()
+  removeFromOutbox(LATEST_FRAME_ID).catch((error) => logger.error("Could not drop queued frame:", error))
+}
+
+// Send everything that is due, oldest first, and schedule the next attempt
+async function processOutbox(): Promise<void> {
+  if (!handlers) return
+  if (processing) {
+    rerunRequested = true
+    return
+  }
+  if (typeof navigator !== "undefined" && !navigator.onLine) return
+
+  processing = true
+  const activeHandlers = handlers
+  try {
+    const items = await listOutbox()
+    let nextDueAt: number | null = null
+
+    for (const item of items) {
+      const now = Date.now()
+      const isStaleFrame =
+        item.kind === "frame" && (now - item.createdAt > MAX_FRAME_AGE_MS || item.createdAt <= lastLiveFrameAt)
+      if (isStaleFrame || activeHandlers.shouldDrop?.(item)) {
+        await removeFromOutbox(item.id)
+        activeHandlers.onSettled?.(item, "dropped")
+        continue
+      }
+      if (item.nextAttemptAt > now) {
+        nextDueAt = Math.min(nextDueAt ?? item.nextAttemptAt, item.nextAttemptAt)
+        continue
+      }
+      if (activeHandlers.shouldDefer?.(item)) {
+        nextDueAt = Math.min(nextDueAt ?? now + DEFER_DELAY_MS, now + DEFER_DELAY_MS)
+        continue
+      }
+
+      try {
+        await activeHandlers.deliver(item)
+        await removeFromOutbox(item.id)
+        logger.log(`Delivered queued ${item.kind} ${item.id}`)
+        activeHandlers.onSettled?.(item, "sent")
+      } catch (error) {
+        if (activeHandlers.isRetryable(error) && item.attempts + 1 < MAX_OUTBOX_ATTEMPTS) {
+          const updated = await recordOutboxFailure(item)
+          logger.log(`Delivery of ${item.id} failed (attempt ${updated.attempts}), retrying later`)
+          nextDueAt = Math.min(nextDueAt ?? updated.nextAttemptAt, updated.nextAttemptAt)
+          // Still unreachable; later items would fail the same way
+          break
+        }
+        logger.error(`Giving up on queued ${item.kind} ${item.id}:`, error)
+        await removeFromOutbox(item.id)
+        activeHandlers.onSettled?.(item, "failed")
+      }
+    }
+
+    if (nextDueAt !== null) {
+      scheduleOutbox(Math.max(0, nextDueAt - Date.now()))
+    }
+  } catch (error) {
+    logger.error("Could not process outbox:", error)
+  } finally {
+    processing = false
+    // Items queued or retried during this flush would otherwise wait for the next online event
+    if (rerunRequested) {
+      rerunRequested = false
+      scheduleOutbox()
+    }
+  }
+}
+
+// Process the outbox after a delay (replacing any pending schedule)
+export function scheduleOutbox(delayMs = 0) {
+  if (retryTimer) clearTimeout(retryTimer)
+  retryTimer = setTimeout(() => {
+    retryTimer = null
+    processOutbox()
+  }, delayMs)
+}
+
+// Register delivery handlers and retry whenever the connection comes back. Returns a stop function.
+export function startOutboxProcessor(outboxHandlers: OutboxHandlers): () => void {
+  handlers = outboxHandlers
+  const handleOnline = () => {
+    logger.log("Back online, flushing outbox")
+    scheduleOutbox()
+  }
+  window.addEventListener("online", handleOnline)
+  scheduleOutbox()
+
+  return () => {
+    window.removeEventListener("online", handleOnline)
+    if (retryTimer) clearTimeout(retryTimer)
+    retryTimer = null
+    if (handlers === outboxHandlers) handlers = null
+  }
+}
@@ -0,0 +1,92 @@
+// Listening preferences for everything Foresight says out loud (answers, read-aloud and the greeting)
+
+export interface SpeechPreferences {
+  rate: number // Playback speed, pitch preserved
+  volume: number // 0-1
+  voice: string // TTS voice id; empty means the backend default
+  language: string // BCP 47 tag for TTS; empty means the backend default
+}
+
+export const MIN_SPEECH_RATE = 0.5
+export const MAX_SPEECH_RATE = 3
+
+export const DEFAULT_SPEECH_PREFERENCES: SpeechPreferences = {
+  rate: 1,
+  volume: 1,
+  voice: "",
+  language: "",
+}
+
+// Choices offered in the settings; the backend falls back to its default for anything it doesn't support
+export const SPEECH_VOICES = [
+  { value: "", label: "Default" },
+  { value: "female", label: "Female" },
+  { value: "male", label: "Male" },
+]
+
+export const SPEECH_LANGUAGES = [
+  { value: "", label: "Default" },
+  { value: "en-US", label: "English (US)" },
+  { value: "en-GB", label: "English (UK)" },
+  { value: "es-ES", label: "Spanish" },
+  { value: "fr-FR", label: "French" },
+  { value: "de-DE", label: "German" },
+  { value: "it-IT", label: "Italian" },
+  { value: "pt-BR", label: "Portuguese (Brazil)" },
+  { value: "hi-IN", label: "Hindi" },
+  { value: "zh-CN", label: "Chinese (Mandarin)" },
+  { value: "ja-JP", label: "Japanese" },
+]
+
+// Keep stored or entered values within what the player supports
+export function normalizeSpeechPreferences(preferences: SpeechPreferences): SpeechPreferences {
+  return {
+    ...preferences,
+    rate: Math.min(MAX_SPEECH_RATE, Math.max(MIN_SPEECH_RATE, preferences.rate)),
+    volume: Math.min(1, Math.max(0, preferences.volume)),
+  }
+}
+
+// Apply rate and volume to an audio element. gain scales the volume for sounds mixed quieter than speech.
+export function applySpeechPreferences(element: HTMLAudioElement, preferences: SpeechPreferences, gain = 1) {
+  // load() resets the rate to the default, so both carry the preference
+  element.defaultPlaybackRate = preferences.rate
+  element.playbackRate = preferences.rate
+  // Without this, faster speech also sounds higher pitched
+  element.preservesPitch = true
+  const legacyElement = element as HTMLAudioElement & { webkitPreservesPitch?: boolean }
+  if ("webkitPreservesPitch" in legacyElement) legacyElement.webkitPreservesPitch = true
+  element.volume = Math.min(1, Math.max(0, preferences.volume * gain))
+}
+
+// On-device speech (Web Speech API), for text that should be heard even when the backend can't be reached
+export function isDeviceSpeechSupported(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window
+}
+
+// Speak text with the device's own voice. Resolves once it finishes or is cancelled.
+export function speakOnDevice(text: string, preferences: SpeechPreferences): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!isDeviceSpeechSupported()) {
+      reject(new Error("Speech is not supported on this device"))
+      return
+    }
+    const utterance = new SpeechSynthesisUtterance(text)
+    // The Web Speech API accepts rates up to 10, so the preference range fits as is
+    utterance.rate = preferences.rate
+    utterance.volume = preferences.volume
+    if (preferences.language) utterance.lang = preferences.language
+    utterance.onend = () => resolve()
+    utterance.onerror = (event) => {
+      if (event.error === "canceled" || event.error === "interrupted") resolve()
+      else reject(new Error(`Speech failed: ${event.error}`))
+    }
+    // Anything still being said would otherwise be queued ahead of this
+    window.speechSynthesis.cancel()
+    window.speechSynthesis.speak(utterance)
+  })
+}
+
+export function cancelDeviceSpeech() {
+  if (isDeviceSpeechSupported()) window.speechSynthesis.cancel()
+}
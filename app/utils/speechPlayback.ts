@@ -0,0 +1,138 @@
+// Turns a TTS response into something an <audio> element can play as early as possible
+import type { SpeechResponse } from "./apiTypes"
+
+export interface SpeechSource {
+  // URL to assign to the audio element right away
+  url: string
+  // True when audio is fed progressively through MediaSource
+  streaming: boolean
+  // Resolves with the complete audio once fully downloaded (for replay / persistence)
+  completed: Promise<Blob>
+}
+
+// Simple logger object
+const logger = {
+  log: (...args: unknown[]) => {
+    console.log("[speechPlayback.ts]", ...args)
+  },
+  error: (...args: unknown[]) => {
+    console.error("[speechPlayback.ts]", ...args)
+  },
+}
+
+// Check whether this browser can append the given audio type to a SourceBuffer
+export function canStreamAudio(mimeType: string): boolean {
+  return typeof window !== "undefined" && !!window.MediaSource && MediaSource.isTypeSupported(mimeType)
+}
+
+// Helper function to wait until a SourceBuffer finishes its current append
+function waitForUpdateEnd(sourceBuffer: SourceBuffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!sourceBuffer.updating) {
+      resolve()
+      return
+    }
+    const onUpdateEnd = () => {
+      sourceBuffer.removeEventListener("error", onError)
+      resolve()
+    }
+    const onError = () => {
+      sourceBuffer.removeEventListener("updateend", onUpdateEnd)
+      reject(new Error("SourceBuffer append failed"))
+    }
+    sourceBuffer.addEventListener("updateend", onUpdateEnd, { once: true })
+    sourceBuffer.addEventListener("error", onError, { once: true })
+  })
+}
+
+// Read an entire stream into a single Blob (fallback when MediaSource can't play the type)
+async function drainToBlob(stream: ReadableStream<Uint8Array>, mimeType: string): Promise<Blob> {
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    if (value) chunks.push(value)
+  }
+
+  if (chunks.length === 0) {
+    throw new Error("No audio data received from stream")
+  }
+  logger.log(`Buffered ${chunks.length} chunks before playback`)
+  return new Blob(chunks, { type: mimeType })
+}
+
+// Feed a stream into a MediaSource so playback starts with the first chunk
+function streamThroughMediaSource(stream: ReadableStream<Uint8Array>, mimeType: string): SpeechSource {
+  const mediaSource = new MediaSource()
+  const url = URL.createObjectURL(mediaSource)
+
+  const completed = new Promise<Blob>((resolve, reject) => {
+    mediaSource.addEventListener(
+      "sourceopen",
+      async () => {
+        // The element has attached; the URL is no longer needed
+        URL.revokeObjectURL(url)
+
+        const chunks: Uint8Array[] = []
+        const reader = stream.getReader()
+        try {
+          const sourceBuffer = mediaSource.addSourceBuffer(mimeType)
+          // Audio-only streams have no timestamps we care about; append back to back
+          sourceBuffer.mode = "sequence"
+
+          while (true) {
+            const { done, value } = await reader.read()
+            if (done) break
+            if (!value || value.byteLength === 0) continue
+
+            chunks.push(value)
+            await waitForUpdateEnd(sourceBuffer)
+            sourceBuffer.appendBuffer(value)
+            if (chunks.length === 1) {
+              logger.log("First audio chunk appended, playback can start")
+            }
+          }
+
+          await waitForUpdateEnd(sourceBuffer)
+          if (mediaSource.readyState === "open") {
+            mediaSource.endOfStream()
+          }
+
+          if (chunks.length === 0) {
+            throw new Error("No audio data received from stream")
+          }
+          logger.log(`Stream complete after ${chunks.length} chunks`)
+          resolve(new Blob(chunks, { type: mimeType }))
+        } catch (error) {
+          logger.error("Streaming playback failed:", error)
+          reader.cancel().catch(() => {})
+          if (mediaSource.readyState === "open") {
+            mediaSource.endOfStream("network")
+          }
+          reject(error)
+        }
+      },
+      { once: true },
+    )
+  })
+
+  // Playback errors also surface on the audio element, so callers that only need the URL may ignore this
+  completed.catch(() => {})
+
+  return { url, streaming: true, completed }
+}
+
+// Create a playable source for a TTS response.
+// Streams progressively when possible, otherwise falls back to a fully buffered Blob URL.
+export async function createSpeechSource(speech: SpeechResponse): Promise<SpeechSource> {
+  if (speech.type === "stream" && canStreamAudio(speech.mimeType)) {
+    logger.log(`Streaming ${speech.mimeType} through MediaSource`)
+    return streamThroughMediaSource(speech.stream, speech.mimeType)
+  }
+
+  const blob = speech.type === "blob" ? speech.blob : await drainToBlob(speech.stream, speech.mimeType)
+  logger.log(`Playing ${blob.size} byte ${speech.mimeType} blob`)
+  return { url: URL.createObjectURL(blob), streaming: false, completed: Promise.resolve(blob) }
+}
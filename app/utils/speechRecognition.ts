@@ -0,0 +1,142 @@
+// Local speech-to-text using the browser's Web Speech API.
+// Used to show what the user said when the backend doesn't return a transcript for a voice question.
+
+// Minimal typings - the Web Speech API is not part of TypeScript's DOM lib
+interface RecognitionAlternative {
+  transcript: string
+}
+
+interface RecognitionResult {
+  isFinal: boolean
+  length: number
+  [index: number]: RecognitionAlternative
+}
+
+interface RecognitionEvent {
+  resultIndex: number
+  results: { length: number; [index: number]: RecognitionResult }
+}
+
+interface RecognitionErrorEvent {
+  error: string
+}
+
+interface Recognition {
+  lang: string
+  continuous: boolean
+  interimResults: boolean
+  onresult: ((event: RecognitionEvent) => void) | null
+  onerror: ((event: RecognitionErrorEvent) => void) | null
+  onend: (() => void) | null
+  start: () => void
+  stop: () => void
+  abort: () => void
+}
+
+type RecognitionConstructor = new () => Recognition
+
+export interface SpeechTranscription {
+  // Stop listening and resolve with the recognized text (null if nothing was recognized).
+  // Safe to call more than once; every call returns the same promise.
+  stop: () => Promise<string | null>
+  // Stop listening and discard the result
+  abort: () => void
+}
+
+// Give the recognizer a moment to deliver its final result after stop()
+const FINALIZE_TIMEOUT_MS = 2000
+
+// Simple logger object
+const logger = {
+  log: (...args: unknown[]) => {
+    console.log("[speechRecognition.ts]", ...args)
+  },
+  error: (...args: unknown[]) => {
+    console.error("[speechRecognition.ts]", ...args)
+  },
+}
+
+// Helper function to find the (possibly prefixed) SpeechRecognition constructor
+function getRecognitionConstructor(): RecognitionConstructor | null {
+  if (typeof window === "undefined") return null
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: RecognitionConstructor
+    webkitSpeechRecognition?: RecognitionConstructor
+  }
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null
+}
+
+export function isSpeechRecognitionSupported(): boolean {
+  return getRecognitionConstructor() !== null
+}
+
+// Start transcribing the microphone alongside a recording.
+// Returns null when the browser has no speech recognition or it fails to start.
+export function startSpeechRecognition(lang?: string): SpeechTranscription | null {
+  const RecognitionImpl = getRecognitionConstructor()
+  if (!RecognitionImpl) return null
+
+  const recognition = new RecognitionImpl()
+  recognition.lang = lang || (typeof navigator !== "undefined" ? navigator.language : "en-US")
+  recognition.continuous = true
+  recognition.interimResults = false
+
+  const finalParts: string[] = []
+  let ended = false
+  let settle: (() => void) | null = null
+
+  recognition.onresult = (event) => {
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i]
+      if (result.isFinal && result.length > 0) {
+        finalParts.push(result[0].transcript.trim())
+      }
+    }
+  }
+
+  recognition.onerror = (event) => {
+    // "no-speech" and "aborted" are expected for short or cancelled recordings
+    if (event.error !== "no-speech" && event.error !== "aborted") {
+      logger.error("Recognition error:", event.error)
+    }
+  }
+
+  recognition.onend = () => {
+    ended = true
+    settle?.()
+  }
+
+  try {
+    recognition.start()
+    logger.log(`Listening (${recognition.lang})`)
+  } catch (error) {
+    logger.error("Could not start recognition:", error)
+    return null
+  }
+
+  let stopPromise: Promise<string | null> | null = null
+
+  return {
+    stop: () => {
+      if (!stopPromise) {
+        stopPromise = new Promise<void>((resolve) => {
+          if (ended) {
+            resolve()
+            return
+          }
+          settle = resolve
+          setTimeout(resolve, FINALIZE_TIMEOUT_MS)
+          recognition.stop()
+        }).then(() => {
+          const transcript = finalParts.join(" ").trim()
+          logger.log(transcript ? `Recognized: "${transcript}"` : "Nothing recognized")
+          return transcript || null
+        })
+      }
+      return stopPromise
+    },
+    abort: () => {
+      if (!ended) recognition.abort()
+    },
+  }
+}
@@ -0,0 +1,94 @@
+// High-resolution stills for reading text. The frames sent for visual context are downscaled screenshots of the
+// preview, which leave small print illegible.
+
+// Longest edge of a still; bigger photos take much longer to read without being more legible
+const MAX_STILL_EDGE = 2400
+// Resolution asked of the camera when it can't take a photo; it picks the closest it supports
+const STILL_CONSTRAINTS = { width: { ideal: 3840 }, height: { ideal: 2160 } }
+// How long to wait for the preview to switch resolution
+const RESIZE_TIMEOUT_MS = 1500
+
+// ImageCapture isn't in the DOM typings yet
+type ImageCaptureConstructor = new (track: MediaStreamTrack) => { takePhoto: () => Promise<Blob> }
+
+// Simple logger object
+const logger = {
+  log: (...args: unknown[]) => {
+    console.log("[stillCapture.ts]", ...args)
+  },
+}
+
+// Helper to draw an image scaled to fit MAX_STILL_EDGE and encode it as a high quality JPEG
+async function encodeStill(source: CanvasImageSource, width: number, height: number): Promise<Blob> {
+  const scale = Math.min(1, MAX_STILL_EDGE / Math.max(width, height))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(width * scale)
+  canvas.height = Math.round(height * scale)
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("Canvas is not available")
+  context.drawImage(source, 0, 0, canvas.width, canvas.height)
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.92))
+  if (!blob) throw new Error("Could not encode the photo")
+  logger.log(`Captured ${canvas.width}x${canvas.height} still (${Math.round(blob.size / 1024)} KB)`)
+  return blob
+}
+
+// Full sensor resolution through ImageCapture (Chrome, Android); null where unsupported
+async function takePhoto(track: MediaStreamTrack): Promise<Blob | null> {
+  const ImageCaptureImpl = (window as unknown as { ImageCapture?: ImageCaptureConstructor }).ImageCapture
+  if (!ImageCaptureImpl) return null
+  try {
+    return await new ImageCaptureImpl(track).takePhoto()
+  } catch (error) {
+    logger.log("takePhoto failed, grabbing a frame instead:", error)
+    return null
+  }
+}
+
+// Helper to wait until the video shows frames at its new resolution (or give up after a moment)
+function waitForResize(video: HTMLVideoElement): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, RESIZE_TIMEOUT_MS)
+    function done() {
+      clearTimeout(timer)
+      video.removeEventListener("resize", done)
+      resolve()
+    }
+    video.addEventListener("resize", done)
+  })
+}
+
+// Capture the sharpest still the camera offers from the video element showing it
+export async function captureStill(video: HTMLVideoElement): Promise<Blob> {
+  const track = video.srcObject instanceof MediaStream ? video.srcObject.getVideoTracks()[0] : undefined
+
+  const photo = track ? await takePhoto(track) : null
+  if (photo) {
+    const bitmap = await createImageBitmap(photo)
+    try {
+      return await encodeStill(bitmap, bitmap.width, bitmap.height)
+    } finally {
+      bitmap.close()
+    }
+  }
+
+  // Otherwise raise the stream's resolution just long enough to grab a frame, then put it back
+  const previousConstraints = track?.getConstraints()
+  if (track && previousConstraints) {
+    try {
+      await track.applyConstraints({ ...previousConstraints, ...STILL_CONSTRAINTS })
+      await waitForResize(video)
+    } catch (error) {
+      logger.log("Could not raise the camera resolution:", error)
+    }
+  }
+  try {
+    if (!video.videoWidth || !video.videoHeight) throw new Error("The camera is not ready")
+    return await encodeStill(video, video.videoWidth, video.videoHeight)
+  } finally {
+    if (track && previousConstraints) {
+      track.applyConstraints(previousConstraints).catch(() => {})
+    }
+  }
+}
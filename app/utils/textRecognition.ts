@@ -0,0 +1,93 @@
+// On-device text recognition (OCR) with Tesseract, which runs in its own Web Worker so the camera view stays smooth.
+// The engine is only loaded on first use. Its worker, WASM core and English model are served by the app from
+// /ocr (copied there by scripts/copy-ocr-assets.mjs) and precached by the service worker, so reading text works
+// offline; photos never leave the device.
+import type Tesseract from "tesseract.js"
+
+export interface RecognizedText {
+  text: string // Empty when nothing legible was found
+  confidence: number // 0-100
+}
+
+// Simple logger object
+const logger = {
+  log: (...args: unknown[]) => {
+    console.log("[textRecognition.ts]", ...args)
+  },
+  error: (...args: unknown[]) => {
+    console.error("[textRecognition.ts]", ...args)
+  },
+}
+
+// Where the app serves the engine files; absolute, since the worker resolves paths against its own URL
+const ocrAssetUrl = () => new URL("/ocr", window.location.origin).href
+
+// Below this mean confidence the result is mostly noise picked up from textures and edges
+const MIN_CONFIDENCE = 40
+
+let workerPromise: Promise<Tesseract.Worker> | null = null
+// Progress callback of the recognition in flight (the logger is fixed when the worker is created)
+let progressListener: ((progress: number) => void) | null = null
+
+function getWorker(): Promise<Tesseract.Worker> {
+  if (!workerPromise) {
+    logger.log("Loading text recognition engine")
+    workerPromise = import("tesseract.js").then(({ createWorker }) =>
+      createWorker("eng", undefined, {
+        // Without these, tesseract.js fetches everything from a CDN
+        workerPath: `${ocrAssetUrl()}/worker.min.js`,
+        workerBlobURL: false,
+        corePath: ocrAssetUrl(),
+        langPath: ocrAssetUrl(),
+        logger: (message) => {
+          if (message.status === "recognizing text") progressListener?.(message.progress)
+        },
+        errorHandler: (error) => logger.error("Worker error:", error),
+      }),
+    )
+    // Try again from scratch next time (e.g. the engine files failed to load)
+    workerPromise.catch(() => {
+      workerPromise = null
+    })
+  }
+  return workerPromise
+}
+
+// Tidy OCR output for reading aloud: drop lines without letters or digits (stray marks from borders and
+// pictures), trim the rest and keep at most one blank line between paragraphs
+function cleanRecognizedText(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line === "" || /[\p{L}\p{N}]/u.test(line))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+// Read the text in an image; onProgress receives 0-1 while the engine works
+export async function recognizeText(image: Blob, onProgress?: (progress: number) => void): Promise<RecognizedText> {
+  const worker = await getWorker()
+  progressListener = onProgress ?? null
+  try {
+    const startedAt = performance.now()
+    // Photos of pages are rarely perfectly level
+    const { data } = await worker.recognize(image, { rotateAuto: true })
+    const text = cleanRecognizedText(data.text)
+    logger.log(
+      `Recognized ${text.length} characters at ${Math.round(data.confidence)}% confidence in ${Math.round(performance.now() - startedAt)}ms`,
+    )
+    return { text: data.confidence >= MIN_CONFIDENCE ? text : "", confidence: data.confidence }
+  } finally {
+    progressListener = null
+  }
+}
+
+// Free the engine's memory (tens of MB) when text reading is no longer on screen
+export function stopTextRecognition() {
+  const pending = workerPromise
+  workerPromise = null
+  pending
+    ?.then((worker) => worker.terminate())
+    .catch(() => {})
+}
@@ -0,0 +1,198 @@
+// Web Audio based voice-activity detection for hands-free mode.
+// Watches the microphone level and reports when speech starts and ends so recording can be driven without touch.
+
+export type VoiceActivityEvent = "speech-start" | "speech-end"
+
+export interface VoiceActivityOptions {
+  stream: MediaStream
+  // 0 (only loud, close speech) to 1 (picks up quiet speech); default 0.5
+  sensitivity?: number
+  onEvent: (event: VoiceActivityEvent) => void
+  // Normalized 0-1 input level, reported on every analysis tick (for meters)
+  onLevel?: (level: number) => void
+  // Return false to ignore the microphone for now (e.g. while an answer is playing)
+  isEnabled?: () => boolean
+}
+
+export interface VoiceActivityDetector {
+  start: () => Promise<void>
+  stop: () => void
+  setSensitivity: (sensitivity: number) => void
+}
+
+// How often the microphone level is sampled
+const ANALYSIS_INTERVAL_MS = 50
+// Speech must last this long before recording starts (filters clicks and bumps)
+const SPEECH_ATTACK_MS = 200
+// Silence must last this long before recording stops (allows pauses between words)
+const SPEECH_HANGOVER_MS = 1200
+// Hard cap on a single hands-free utterance
+const MAX_UTTERANCE_MS = 15000
+// Ratio over the noise floor needed to count as speech at sensitivity 0 and 1
+const MIN_SPEECH_RATIO = 1.8
+const MAX_SPEECH_RATIO = 6
+// Absolute RMS floor so a silent room doesn't make every breath look like speech
+const MIN_SPEECH_RMS = 0.01
+// How quickly the noise floor follows the background level (per tick)
+const NOISE_FLOOR_ADAPTATION = 0.05
+
+// Simple logger object
+const logger = {
+  log: (...args: unknown[]) => {
+    console.log("[voiceActivity.ts]", ...args)
+  },
+  error: (...args: unknown[]) => {
+    console.error("[voiceActivity.ts]", ...args)
+  },
+}
+
+// Helper function to create an AudioContext, including the prefixed Safari version
+export function createAudioContext(): AudioContext | null {
+  if (typeof window === "undefined") return null
+  const AudioContextImpl =
+    window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+  return AudioContextImpl ? new AudioContextImpl() : null
+}
+
+function clampSensitivity(sensitivity: number): number {
+  return Math.min(1, Math.max(0, sensitivity))
+}
+
+// Higher sensitivity → lower ratio over the noise floor needed to count as speech
+function speechRatioFor(sensitivity: number): number {
+  return MAX_SPEECH_RATIO - (MAX_SPEECH_RATIO - MIN_SPEECH_RATIO) * clampSensitivity(sensitivity)
+}
+
+export function createVoiceActivityDetector(options: VoiceActivityOptions): VoiceActivityDetector {
+  let speechRatio = speechRatioFor(options.sensitivity ?? 0.5)
+  let audioContext: AudioContext | null = null
+  let source: MediaStreamAudioSourceNode | null = null
+  let timer: ReturnType<typeof setInterval> | null = null
+
+  let noiseFloor = MIN_SPEECH_RMS / 2
+  let inSpeech = false
+  let aboveSince: number | null = null
+  let belowSince: number | null = null
+  let speechStartedAt = 0
+
+  const endSpeech = (reason: string) => {
+    inSpeech = false
+    aboveSince = null
+    belowSince = null
+    logger.log(`Speech ended (${reason})`)
+    options.onEvent("speech-end")
+  }
+
+  const analyze = (analyser: AnalyserNode, samples: Float32Array<ArrayBuffer>) => {
+    analyser.getFloatTimeDomainData(samples)
+    let sumSquares = 0
+    for (let i = 0; i < samples.length; i++) {
+      sumSquares += samples[i] * samples[i]
+    }
+    const rms = Math.sqrt(sumSquares / samples.length)
+    options.onLevel?.(Math.min(1, rms * 10))
+
+    const now = Date.now()
+
+    if (options.isEnabled && !options.isEnabled()) {
+      if (inSpeech) endSpeech("paused")
+      aboveSince = null
+      return
+    }
+
+    const threshold = Math.max(MIN_SPEECH_RMS, noiseFloor * speechRatio)
+    const isLoud = rms > threshold
+
+    // Only learn the background level while nobody is talking
+    if (!inSpeech && !isLoud) {
+      noiseFloor += (rms - noiseFloor) * NOISE_FLOOR_ADAPTATION
+    }
+
+    if (!inSpeech) {
+      if (!isLoud) {
+        aboveSince = null
+        return
+      }
+      aboveSince = aboveSince ?? now
+      if (now - aboveSince >= SPEECH_ATTACK_MS) {
+        inSpeech = true
+        speechStartedAt = now
+        belowSince = null
+        logger.log(`Speech started (rms ${rms.toFixed(3)}, threshold ${threshold.toFixed(3)})`)
+        options.onEvent("speech-start")
+      }
+      return
+    }
+
+    if (now - speechStartedAt >= MAX_UTTERANCE_MS) {
+      endSpeech("max length")
+      return
+    }
+
+    if (isLoud) {
+      belowSince = null
+    } else {
+      belowSince = belowSince ?? now
+      if (now - belowSince >= SPEECH_HANGOVER_MS) {
+        endSpeech("silence")
+      }
+    }
+  }
+
+  return {
+    start: async () => {
+      if (timer) return
+
+      audioContext = createAudioContext()
+      if (!audioContext) {
+        throw new Error("Web Audio is not supported in this browser")
+      }
+      // Contexts created outside a user gesture start suspended on some browsers
+      if (audioContext.state === "suspended") {
+        await audioContext.resume().catch(() => {})
+      }
+
+      source = audioContext.createMediaStreamSource(options.stream)
+      const analyser = audioContext.createAnalyser()
+      analyser.fftSize = 1024
+      source.connect(analyser)
+
+      const samples = new Float32Array(analyser.fftSize)
+      timer = setInterval(() => analyze(analyser, samples), ANALYSIS_INTERVAL_MS)
+      logger.log("Voice activity detection started")
+    },
+
+    stop: () => {
+      if (timer) {
+        clearInterval(timer)
+        timer = null
+      }
+      if (inSpeech) endSpeech("stopped")
+      source?.disconnect()
+      source = null
+      audioContext?.close().catch(() => {})
+      audioContext = null
+      logger.log("Voice activity detection stopped")
+    },
+
+    setSensitivity: (sensitivity) => {
+      speechRatio = speechRatioFor(sensitivity)
+    },
+  }
+}
+
+// Helper function to normalize text for keyword comparison
+function normalizeWords(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[.,!?;:"'()-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+// Whether a transcript contains the wake word (case and punctuation insensitive)
+export function matchesWakeWord(transcript: string, wakeWord: string): boolean {
+  const keyword = normalizeWords(wakeWord)
+  if (!keyword) return true
+  return ` ${normalizeWords(transcript)} `.includes(` ${keyword} `)
+}
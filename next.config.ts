@@ -1,12 +1,88 @@
 import type { NextConfig } from "next";
-// import withPWAInit from "next-pwa";
+import withPWAInit, { type PWAConfig } from "next-pwa";
 
-// const withPWA = withPWAInit({
-//   dest: "public",
-//   register: true,
-//   skipWaiting: true, // Recommended for faster updates
-//   disable: process.env.NODE_ENV === "development", // Disable PWA in development
-// });
+const withPWA = withPWAInit({
+  // Everything in public/ (greeting.mp3, logo, icons, the OCR engine in ocr/) is precached along with the app shell
+  dest: "public",
+  register: true,
+  // Wait for the user to accept the update prompt instead of swapping versions mid-question
+  skipWaiting: false,
+  disable: process.env.NODE_ENV === "development", // Disable PWA in development
+  // Shown for page navigations while offline
+  // (@types/next-pwa marks every fallback kind as required, but next-pwa only needs the ones it should serve)
+  fallbacks: {
+    document: "/offline",
+  } as PWAConfig["fallbacks"],
+  // The app router emits this manifest without serving it, which would break service worker install
+  buildExcludes: [/app-build-manifest\.json$/],
+  // Rules are matched in order; the first match wins
+  runtimeCaching: [
+    {
+      // Never cache API calls: answers, speech and vision results must always be live
+      urlPattern: ({ url }) => url.pathname.startsWith("/api/"),
+      handler: "NetworkOnly",
+      // next-pwa attaches the offline fallback to every rule's options, so each rule needs them
+      options: { cacheName: "apis" },
+    },
+    {
+      // The backend may live on another origin (configurable at runtime), so nothing cross-origin is cached
+      urlPattern: ({ url }) => self.origin !== url.origin,
+      handler: "NetworkOnly",
+      options: { cacheName: "cross-origin" },
+    },
+    {
+      urlPattern: /\.(?:eot|otf|ttc|ttf|woff|woff2|font\.css)$/i,
+      handler: "StaleWhileRevalidate",
+      options: {
+        cacheName: "static-font-assets",
+        expiration: { maxEntries: 8, maxAgeSeconds: 7 * 24 * 60 * 60 },
+      },
+    },
+    {
+      urlPattern: /\.(?:jpg|jpeg|gif|png|svg|ico|webp)$/i,
+      handler: "StaleWhileRevalidate",
+      options: {
+        cacheName: "static-image-assets",
+        expiration: { maxEntries: 64, maxAgeSeconds: 24 * 60 * 60 },
+      },
+    },
+    {
+      urlPattern: /\/_next\/image\?url=.+$/i,
+      handler: "StaleWhileRevalidate",
+      options: {
+        cacheName: "next-image",
+        expiration: { maxEntries: 64, maxAgeSeconds: 24 * 60 * 60 },
+      },
+    },
+    {
+      urlPattern: /\.(?:mp3|wav|ogg)$/i,
+      handler: "CacheFirst",
+      options: {
+        rangeRequests: true,
+        cacheName: "static-audio-assets",
+        expiration: { maxEntries: 16, maxAgeSeconds: 7 * 24 * 60 * 60 },
+      },
+    },
+    {
+      urlPattern: /\.(?:js|css)$/i,
+      handler: "StaleWhileRevalidate",
+      options: {
+        cacheName: "static-js-css-assets",
+        expiration: { maxEntries: 64, maxAgeSeconds: 24 * 60 * 60 },
+      },
+    },
+    {
+      // Pages: prefer fresh HTML, fall back to the cached shell when the network is slow or gone
+      urlPattern: ({ url }) => self.origin === url.origin,
+      handler: "NetworkFirst",
+      options: {
+        cacheName: "pages",
+        expiration: { maxEntries: 32, maxAgeSeconds: 24 * 60 * 60 },
+        networkTimeoutSeconds: 10,
+      },
+    },
+  ],
+});
 
 const nextConfig: NextConfig = {
   eslint: {
@@ -14,5 +90,5 @@ const nextConfig: NextConfig = {
   },
 };
 
-// export default withPWA(nextConfig);
-export default nextConfig; // Export the plain config for now
+// @types/next-pwa bundles an older Next.js config type, so bridge the two versions explicitly
+export default withPWA(nextConfig as Parameters<typeof withPWA>[0]) as NextConfig;
@@ -0,0 +1,30 @@
+// Copies the text recognition engine (Tesseract worker, WASM cores and English model) from node_modules
+// into public/ocr, so the app serves it itself and the service worker precaches it for offline use.
+// Runs before dev and build; the copies are git-ignored.
+import { copyFileSync, mkdirSync } from "node:fs"
+import { createRequire } from "node:module"
+import { dirname, join } from "node:path"
+
+const require = createRequire(import.meta.url)
+const target = join(process.cwd(), "public", "ocr")
+
+const tesseractDir = dirname(require.resolve("tesseract.js/package.json"))
+// The core is a dependency of tesseract.js, so resolve it from there
+const coreDir = dirname(createRequire(join(tesseractDir, "package.json")).resolve("tesseract.js-core/package.json"))
+const langDir = dirname(require.resolve("@tesseract.js-data/eng/package.json"))
+
+const assets = [
+  [join(tesseractDir, "dist", "worker.min.js"), "worker.min.js"],
+  // The worker picks one of these by browser support; only LSTM builds are needed for the default engine mode
+  [join(coreDir, "tesseract-core-lstm.wasm.js"), "tesseract-core-lstm.wasm.js"],
+  [join(coreDir, "tesseract-core-simd-lstm.wasm.js"), "tesseract-core-simd-lstm.wasm.js"],
+  [join(coreDir, "tesseract-core-relaxedsimd-lstm.wasm.js"), "tesseract-core-relaxedsimd-lstm.wasm.js"],
+  // The same "best_int" model tesseract.js downloads by default
+  [join(langDir, "4.0.0_best_int", "eng.traineddata.gz"), "eng.traineddata.gz"],
+]
+
+mkdirSync(target, { recursive: true })
+for (const [source, name] of assets) {
+  copyFileSync(source, join(target, name))
+}
+console.log(`[copy-ocr-assets] Copied ${assets.length} files to public/ocr`)